@@ -0,0 +1,88 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    LLMConfig,
+    OpenAICompatibleProvider,
+    ResilientLLMProvider,
+    createLLMProvider,
+    registerLLMProvider
+} from './llm.config';
+
+/**
+ * Local OpenAI-compatible endpoint that records request paths and bodies
+ */
+async function startStubServer() {
+    const requests: { url?: string; body: Record<string, unknown> }[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            requests.push({ url: req.url, body: JSON.parse(raw) });
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ choices: [{ message: { content: 'from stub' } }] }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+describe('custom LLM providers', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+    beforeEach(async () => {
+        stub = await startStubServer();
+    });
+
+    afterEach(async () => {
+        await stub.close();
+    });
+
+    it('builds a registered provider from the full config', async () => {
+        const factory = jest.fn((config: LLMConfig) => new OpenAICompatibleProvider(config, `${stub.url}/gateway/v1`));
+        registerLLMProvider('gateway', factory);
+
+        const config: LLMConfig = { provider: 'custom', model: 'house-model', customOptions: { name: 'gateway' }, resilience: false };
+        const provider = createLLMProvider(config);
+        const response = await provider.generateCompletion([{ role: 'user', content: 'Hi' }]);
+
+        expect(factory).toHaveBeenCalledWith(config);
+        expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+        expect(response.content).toBe('from stub');
+        expect(stub.requests).toEqual([
+            { url: '/gateway/v1/chat/completions', body: expect.objectContaining({ model: 'house-model' }) }
+        ]);
+    });
+
+    it('wraps registered providers with resilience unless disabled', async () => {
+        registerLLMProvider('wrapped', config => new OpenAICompatibleProvider(config, stub.url));
+
+        const provider = createLLMProvider({ provider: 'custom', model: 'house-model', customOptions: { name: 'wrapped' } });
+
+        expect(provider).toBeInstanceOf(ResilientLLMProvider);
+        expect(provider.generateStream).toBeDefined();
+        expect((await provider.generateCompletion([{ role: 'user', content: 'Hi' }])).content).toBe('from stub');
+    });
+
+    it('replaces an earlier registration under the same name', async () => {
+        registerLLMProvider('replaced', () => new OpenAICompatibleProvider({ provider: 'local', model: 'old', baseUrl: 'http://127.0.0.1:1' }));
+        registerLLMProvider('replaced', config => new OpenAICompatibleProvider(config, stub.url));
+
+        const provider = createLLMProvider({ provider: 'custom', model: 'new', customOptions: { name: 'replaced' }, resilience: false });
+        await provider.generateCompletion([{ role: 'user', content: 'Hi' }]);
+
+        expect(stub.requests[0].body.model).toBe('new');
+    });
+
+    it('rejects unknown or missing provider names', () => {
+        expect(() => createLLMProvider({ provider: 'custom', model: 'x', customOptions: { name: 'unregistered' } }))
+            .toThrow('No custom LLM provider registered under name: unregistered');
+        expect(() => createLLMProvider({ provider: 'custom', model: 'x' }))
+            .toThrow('No custom LLM provider registered under name: undefined');
+    });
+});
@@ -1,6 +1,20 @@
 /**
  * Core LLM interfaces and configurations for MindSculpt
  */
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { OpenAICompatibleProvider, OpenAIProvider } from './providers/openAICompatibleProvider';
+import { ResilienceOptions, withResilience } from './llmMiddleware';
+
+export { AnthropicProvider } from './providers/anthropicProvider';
+export { OpenAICompatibleProvider, OpenAIProvider } from './providers/openAICompatibleProvider';
+export * from './llmErrors';
+export {
+    ResilienceOptions,
+    RateLimitOptions,
+    ResilientLLMProvider,
+    ResilientStreamingLLMProvider,
+    withResilience
+} from './llmMiddleware';
 
 /**
  * Supported LLM provider types
@@ -14,9 +28,12 @@ export interface LLMConfig {
     provider: LLMProviderType;
     apiKey?: string;
     model: string;
+    baseUrl?: string;
     maxTokens?: number;
     temperature?: number;
     customOptions?: Record<string, any>;
+    /** Timeouts, retries and rate limiting; `false` returns the bare provider */
+    resilience?: ResilienceOptions | false;
 }
 
 /**
@@ -29,6 +46,7 @@ export interface LLMResponse {
         promptTokens: number;
         completionTokens: number;
     };
+    /** Provider details; `finishReason` is the provider's reason for stopping, as reported */
     metadata?: Record<string, any>;
 }
 
@@ -43,68 +61,130 @@ export interface LLMMessage {
 }
 
 /**
- * Core LLM Provider interface
+ * Per-request overrides of the provider configuration
+ */
+export interface LLMRequestOptions {
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Core LLM Provider interface, shared by chat generation, classification,
+ * similarity analysis and reflection
  */
 export interface LLMProvider {
-    generateCompletion(messages: LLMMessage[]): Promise<LLMResponse>;
-    generateStream?(messages: LLMMessage[]): AsyncIterableIterator<LLMResponse>;
+    generateCompletion(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMResponse>;
+    generateStream?(messages: LLMMessage[], options?: LLMRequestOptions): AsyncIterableIterator<LLMResponse>;
 }
 
 /**
- * Default configuration settings
+ * Legacy prompt-in, text-out provider shape
  */
-export const DEFAULT_CONFIG: LLMConfig = {
-    provider: 'openai',
-    model: 'gpt-4',
-    maxTokens: 2000,
-    temperature: 0.7,
-};
+export interface TextCompletionProvider {
+    generateCompletion(prompt: string): Promise<string>;
+}
 
 /**
- * Example OpenAI provider implementation
+ * Adapts a string-based provider to the LLMProvider interface. Messages are
+ * flattened into a single prompt, prefixed with their role when there is
+ * more than one.
  */
-export class OpenAIProvider implements LLMProvider {
-    private config: LLMConfig;
+export class TextCompletionAdapter implements LLMProvider {
+    private readonly provider: TextCompletionProvider;
 
-    constructor(config: LLMConfig) {
-        this.config = { ...DEFAULT_CONFIG, ...config };
+    constructor(provider: TextCompletionProvider) {
+        this.provider = provider;
     }
 
     async generateCompletion(messages: LLMMessage[]): Promise<LLMResponse> {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.config.apiKey}`
-            },
-            body: JSON.stringify({
-                model: this.config.model,
-                messages,
-                max_tokens: this.config.maxTokens,
-                temperature: this.config.temperature
-            })
-        });
-
-        const data = await response.json();
+        const prompt = messages.length === 1
+            ? messages[0].content
+            : messages.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n');
 
         return {
-            content: data.choices[0].message.content,
-            usage: {
-                totalTokens: data.usage.total_tokens,
-                promptTokens: data.usage.prompt_tokens,
-                completionTokens: data.usage.completion_tokens
-            }
+            content: await this.provider.generateCompletion(prompt)
         };
     }
 }
 
 /**
- * Example mock provider for testing
+ * Error raised when a request is cancelled through its AbortSignal
+ */
+export function createAbortError(): Error {
+    const error = new Error('The LLM request was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Stream a completion. Uses the provider's native streaming when available
+ * and otherwise yields the full completion as a single chunk. Chunks carry
+ * incremental content; the last one has `metadata.done` set and the usage
+ * totals, if the provider reports them.
+ */
+export async function* streamCompletion(
+    provider: LLMProvider,
+    messages: LLMMessage[],
+    options: LLMRequestOptions = {}
+): AsyncIterableIterator<LLMResponse> {
+    if (provider.generateStream) {
+        yield* provider.generateStream(messages, options);
+        return;
+    }
+
+    if (options.signal?.aborted) {
+        throw createAbortError();
+    }
+
+    const response = await provider.generateCompletion(messages, options);
+
+    if (options.signal?.aborted) {
+        throw createAbortError();
+    }
+
+    yield {
+        ...response,
+        metadata: { ...response.metadata, done: true }
+    };
+}
+
+/**
+ * Send a single user prompt and return the text of the reply
+ */
+export async function completePrompt(
+    provider: LLMProvider,
+    prompt: string,
+    options?: LLMRequestOptions
+): Promise<string> {
+    const response = await provider.generateCompletion([{ role: 'user', content: prompt }], options);
+    return response.content;
+}
+
+/**
+ * Default configuration settings
+ */
+export const DEFAULT_CONFIG: LLMConfig = {
+    provider: 'openai',
+    model: 'gpt-4',
+    maxTokens: 2000,
+    temperature: 0.7,
+};
+
+/**
+ * Example mock provider for testing. Replies with a fixed string or with
+ * the result of a responder function.
  */
 export class MockLLMProvider implements LLMProvider {
+    private readonly responder: (messages: LLMMessage[]) => string;
+
+    constructor(response: string | ((messages: LLMMessage[]) => string) = "Mock response for testing") {
+        this.responder = typeof response === 'function' ? response : () => response;
+    }
+
     async generateCompletion(messages: LLMMessage[]): Promise<LLMResponse> {
         return {
-            content: "Mock response for testing",
+            content: this.responder(messages),
             usage: {
                 totalTokens: 10,
                 promptTokens: 5,
@@ -115,14 +195,46 @@ export class MockLLMProvider implements LLMProvider {
 }
 
 /**
- * Factory function to create LLM providers
+ * Factory for custom providers registered with registerLLMProvider
+ */
+export type LLMProviderFactory = (config: LLMConfig) => LLMProvider;
+
+const customProviders = new Map<string, LLMProviderFactory>();
+
+/**
+ * Register a custom provider. Select it with
+ * `{ provider: 'custom', customOptions: { name } }`.
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+    customProviders.set(name, factory);
+}
+
+/**
+ * Factory function to create LLM providers, wrapped with timeouts, retries
+ * and rate limiting unless `config.resilience` is `false`
  */
 export function createLLMProvider(config: LLMConfig): LLMProvider {
+    const provider = createBaseProvider(config);
+    return config.resilience === false ? provider : withResilience(provider, config.resilience);
+}
+
+function createBaseProvider(config: LLMConfig): LLMProvider {
     switch (config.provider) {
         case 'openai':
             return new OpenAIProvider(config);
+        case 'anthropic':
+        case 'claude':
+            return new AnthropicProvider(config);
         case 'local':
-            return new MockLLMProvider();
+            return new OpenAICompatibleProvider(config);
+        case 'custom': {
+            const name = config.customOptions?.name;
+            const factory = typeof name === 'string' ? customProviders.get(name) : undefined;
+            if (!factory) {
+                throw new Error(`No custom LLM provider registered under name: ${name}`);
+            }
+            return factory(config);
+        }
         default:
             throw new Error(`Unsupported LLM provider: ${config.provider}`);
     }
@@ -144,5 +256,47 @@ export function createLLMProvider(config: LLMConfig): LLMProvider {
  * const response = await llm.generateCompletion([
  *   { role: 'user', content: 'Hello!' }
  * ]);
+ *
+ * // Stream a reply, cancelling after ten seconds
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 10000);
+ * for await (const chunk of streamCompletion(llm, messages, { signal: controller.signal })) {
+ *   process.stdout.write(chunk.content);
+ * }
+ *
+ * // Local OpenAI-compatible server (llama.cpp, vLLM, Ollama)
+ * const local = createLLMProvider({
+ *   provider: 'local',
+ *   model: 'llama3',
+ *   baseUrl: 'http://localhost:11434/v1'
+ * });
+ *
+ * // Tighter timeouts and a client-side budget; failures surface as typed errors
+ * const limited = createLLMProvider({
+ *   ...config,
+ *   resilience: { timeoutMs: 15000, maxRetries: 5, rateLimit: { requestsPerMinute: 60, tokensPerMinute: 90000 } }
+ * });
+ * try {
+ *   await limited.generateCompletion(messages);
+ * } catch (error) {
+ *   if (error instanceof RateLimitError) {
+ *     console.log(`Rate limited, retry in ${error.retryAfterMs}ms`);
+ *   } else if (error instanceof ContextLengthError) {
+ *     // Trim the prompt and try again
+ *   }
+ * }
+ *
+ * // Custom provider
+ * registerLLMProvider('echo', () => new MockLLMProvider(messages => messages[messages.length - 1].content));
+ * const echo = createLLMProvider({ provider: 'custom', model: 'echo', customOptions: { name: 'echo' } });
+ *
+ * // The same provider drives classification and reflection
+ * const classifier = new ClassificationService(llm);
+ * const reflection = new ReflectionService(memoryManager, llm);
+ *
+ * // Wrap an existing string-based provider
+ * const adapted = new TextCompletionAdapter({
+ *   generateCompletion: async (prompt) => myModel.complete(prompt)
+ * });
  * ```
  */
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * Typed errors for LLM requests, so callers can branch on the failure
+ */
+
+/**
+ * Base class for all LLM request failures
+ */
+export class LLMError extends Error {
+    public readonly status?: number;
+    public readonly retryable: boolean;
+    public readonly body?: string;
+
+    constructor(message: string, options: { status?: number; retryable?: boolean; body?: string } = {}) {
+        super(message);
+        this.name = 'LLMError';
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+        this.body = options.body;
+    }
+}
+
+/**
+ * 429 responses; `retryAfterMs` carries the server's Retry-After hint
+ */
+export class RateLimitError extends LLMError {
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { status?: number; body?: string; retryAfterMs?: number } = {}) {
+        super(message, { ...options, retryable: true });
+        this.name = 'RateLimitError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/**
+ * 401/403 responses: missing, invalid or unauthorized API key
+ */
+export class AuthError extends LLMError {
+    constructor(message: string, options: { status?: number; body?: string } = {}) {
+        super(message, { ...options, retryable: false });
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * The prompt does not fit the model's context window
+ */
+export class ContextLengthError extends LLMError {
+    constructor(message: string, options: { status?: number; body?: string } = {}) {
+        super(message, { ...options, retryable: false });
+        this.name = 'ContextLengthError';
+    }
+}
+
+/**
+ * 5xx responses and overloaded servers
+ */
+export class LLMServerError extends LLMError {
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { status?: number; body?: string; retryAfterMs?: number } = {}) {
+        super(message, { ...options, retryable: true });
+        this.name = 'LLMServerError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class LLMTimeoutError extends LLMError {
+    constructor(timeoutMs: number) {
+        super(`LLM request timed out after ${timeoutMs}ms`, { retryable: true });
+        this.name = 'LLMTimeoutError';
+    }
+}
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|maximum context|prompt is too long|too many tokens/i;
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Map a failed HTTP response to a typed error
+ */
+export async function createLLMErrorFromResponse(response: Response): Promise<LLMError> {
+    const body = await response.text().catch(() => '');
+    const status = response.status;
+    const message = `LLM request failed with status ${status}: ${body}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+    if (status === 429) {
+        return new RateLimitError(message, { status, body, retryAfterMs });
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, { status, body });
+    }
+    if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(body)) {
+        return new ContextLengthError(message, { status, body });
+    }
+    // 529 is Anthropic's "overloaded" status
+    if (status >= 500) {
+        return new LLMServerError(message, { status, body, retryAfterMs });
+    }
+    return new LLMError(message, { status, body });
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * try {
+ *   await llm.generateCompletion(messages);
+ * } catch (error) {
+ *   if (error instanceof RateLimitError) {
+ *     await sleep(error.retryAfterMs ?? 1000);
+ *   } else if (error instanceof AuthError) {
+ *     console.error('Invalid API key');
+ *   } else if (error instanceof ContextLengthError) {
+ *     // Drop older history and retry
+ *   }
+ * }
+ * ```
+ */
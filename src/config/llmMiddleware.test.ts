@@ -0,0 +1,124 @@
+import { ResilientLLMProvider, withResilience } from './llmMiddleware';
+import { LLMProvider, LLMRequestOptions, LLMResponse } from './llm.config';
+import { LLMTimeoutError, RateLimitError } from './llmErrors';
+
+const MESSAGES = [{ role: 'user' as const, content: 'Hi' }];
+
+/**
+ * Resolve with `response` after `ms`, or reject once the request's signal aborts
+ */
+function delayed<T>(ms: number, response: T, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(response), ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('aborted'));
+        }, { once: true });
+    });
+}
+
+describe('ResilientLLMProvider', () => {
+    it('does not send a request when the signal is already aborted', async () => {
+        const generateCompletion = jest.fn(async () => ({ content: 'never' }));
+        const provider = new ResilientLLMProvider({ generateCompletion });
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(provider.generateCompletion(MESSAGES, { signal: controller.signal }))
+            .rejects.toMatchObject({ name: 'AbortError' });
+        expect(generateCompletion).not.toHaveBeenCalled();
+    });
+
+    it('times out slow attempts and retries retryable errors', async () => {
+        const generateCompletion = jest.fn()
+            .mockImplementationOnce((_messages, options: LLMRequestOptions) => delayed(1000, { content: 'late' }, options.signal))
+            .mockRejectedValueOnce(new RateLimitError('slow down', { retryAfterMs: 0 }))
+            .mockResolvedValueOnce({ content: 'ok' });
+        const provider = new ResilientLLMProvider({ generateCompletion }, { timeoutMs: 20, baseDelayMs: 1 });
+
+        expect(await provider.generateCompletion(MESSAGES)).toEqual({ content: 'ok' });
+        expect(generateCompletion).toHaveBeenCalledTimes(3);
+    });
+
+    it('throws LLMTimeoutError once retries are exhausted', async () => {
+        const provider = new ResilientLLMProvider({
+            generateCompletion: (_messages, options) => delayed(1000, { content: 'late' }, options?.signal)
+        }, { timeoutMs: 20, maxRetries: 0 });
+
+        await expect(provider.generateCompletion(MESSAGES)).rejects.toBeInstanceOf(LLMTimeoutError);
+    });
+});
+
+describe('ResilientStreamingLLMProvider', () => {
+    /**
+     * Streaming provider that yields one chunk per entry in `delays`, each
+     * after that many milliseconds, and stops early when aborted
+     */
+    function streamingProvider(delays: number[]): LLMProvider {
+        return {
+            generateCompletion: async () => ({ content: '' }),
+            async *generateStream(_messages, options = {}): AsyncIterableIterator<LLMResponse> {
+                for (const [index, ms] of delays.entries()) {
+                    yield await delayed(ms, { content: `chunk ${index}` }, options.signal);
+                }
+            }
+        };
+    }
+
+    async function collect(provider: LLMProvider, options?: LLMRequestOptions): Promise<string[]> {
+        const chunks: string[] = [];
+        for await (const chunk of provider.generateStream!(MESSAGES, options)) {
+            chunks.push(chunk.content);
+        }
+        return chunks;
+    }
+
+    it('allows streams longer than the timeout while chunks keep arriving', async () => {
+        const provider = withResilience(streamingProvider([25, 25, 25, 25]), { timeoutMs: 80 });
+
+        expect(await collect(provider)).toEqual(['chunk 0', 'chunk 1', 'chunk 2', 'chunk 3']);
+    });
+
+    it('fails with LLMTimeoutError when the stream stalls after the first chunk', async () => {
+        const provider = withResilience(streamingProvider([5, 1000]), { timeoutMs: 50, maxRetries: 0 });
+        const chunks: string[] = [];
+
+        const error = await (async () => {
+            for await (const chunk of provider.generateStream!(MESSAGES)) {
+                chunks.push(chunk.content);
+            }
+        })().catch(e => e);
+
+        expect(chunks).toEqual(['chunk 0']);
+        expect(error).toBeInstanceOf(LLMTimeoutError);
+    });
+
+    it('aborts the underlying request when the consumer stops early', async () => {
+        let signal: AbortSignal | undefined;
+        const inner = streamingProvider([5, 5, 5]);
+        const provider = withResilience({
+            ...inner,
+            generateStream: (messages, options) => {
+                signal = options?.signal;
+                return inner.generateStream!(messages, options);
+            }
+        });
+
+        for await (const chunk of provider.generateStream!(MESSAGES)) {
+            expect(chunk.content).toBe('chunk 0');
+            break;
+        }
+
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('does not open a stream when the signal is already aborted', async () => {
+        const generateStream = jest.fn();
+        const provider = withResilience({ generateCompletion: async () => ({ content: '' }), generateStream });
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(collect(provider, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+        expect(generateStream).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,336 @@
+import { LLMMessage, LLMProvider, LLMRequestOptions, LLMResponse, createAbortError } from './llm.config';
+import { LLMError, LLMTimeoutError, RateLimitError, LLMServerError } from './llmErrors';
+
+/**
+ * Client-side request and token budgets per rolling minute
+ */
+export interface RateLimitOptions {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+
+/**
+ * Configuration for timeouts, retries and rate limiting
+ */
+export interface ResilienceOptions {
+    /** Time allowed per request; for streams, the longest wait for each chunk */
+    timeoutMs?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    rateLimit?: RateLimitOptions;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: Required<Omit<ResilienceOptions, 'rateLimit'>> = {
+    timeoutMs: 60000,
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 30000
+};
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Rough prompt size used to reserve rate limit budget before a request
+ */
+function estimateRequestTokens(messages: LLMMessage[], options: LLMRequestOptions): number {
+    const promptTokens = messages.reduce((sum, message) => sum + Math.ceil(message.content.length / 4), 0);
+    return promptTokens + (options.maxTokens ?? 0);
+}
+
+/**
+ * Resolve after `ms`, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Sliding-window limiter for requests and tokens per minute
+ */
+export class RateLimiter {
+    private readonly options: RateLimitOptions;
+    private entries: { time: number; tokens: number }[] = [];
+
+    constructor(options: RateLimitOptions) {
+        this.options = options;
+    }
+
+    private prune(now: number): void {
+        this.entries = this.entries.filter(entry => now - entry.time < WINDOW_MS);
+    }
+
+    /**
+     * Milliseconds to wait before a request of `tokens` fits the budget
+     */
+    private waitTime(tokens: number, now: number): number {
+        this.prune(now);
+        const { requestsPerMinute, tokensPerMinute } = this.options;
+        let wait = 0;
+
+        if (requestsPerMinute !== undefined && this.entries.length >= requestsPerMinute) {
+            const oldest = this.entries[this.entries.length - requestsPerMinute];
+            wait = Math.max(wait, oldest.time + WINDOW_MS - now);
+        }
+
+        if (tokensPerMinute !== undefined) {
+            // Requests larger than the whole budget wait for an empty window
+            const needed = Math.min(tokens, tokensPerMinute);
+            let used = this.entries.reduce((sum, entry) => sum + entry.tokens, 0);
+            for (const entry of this.entries) {
+                if (used + needed <= tokensPerMinute) {
+                    break;
+                }
+                used -= entry.tokens;
+                wait = Math.max(wait, entry.time + WINDOW_MS - now);
+            }
+        }
+
+        return wait;
+    }
+
+    /**
+     * Wait until the request fits, then reserve its budget. Returns a
+     * function to correct the reservation once actual usage is known.
+     */
+    public async acquire(tokens: number, signal?: AbortSignal): Promise<(actualTokens: number) => void> {
+        let wait = this.waitTime(tokens, Date.now());
+        while (wait > 0) {
+            await sleep(wait, signal);
+            wait = this.waitTime(tokens, Date.now());
+        }
+
+        const entry = { time: Date.now(), tokens };
+        this.entries.push(entry);
+        return (actualTokens: number) => {
+            entry.tokens = actualTokens;
+        };
+    }
+}
+
+/**
+ * Provider middleware adding timeouts, retries with exponential backoff and
+ * jitter on 429/5xx (respecting Retry-After), and client-side rate limiting
+ */
+export class ResilientLLMProvider implements LLMProvider {
+    protected readonly provider: LLMProvider;
+    protected readonly options: Required<Omit<ResilienceOptions, 'rateLimit'>>;
+    protected readonly rateLimiter?: RateLimiter;
+
+    constructor(provider: LLMProvider, options: ResilienceOptions = {}) {
+        this.provider = provider;
+        this.options = { ...DEFAULT_RESILIENCE_OPTIONS, ...options };
+        this.rateLimiter = options.rateLimit ? new RateLimiter(options.rateLimit) : undefined;
+    }
+
+    /**
+     * Delay before the next attempt: the server's Retry-After if given,
+     * otherwise exponential backoff with full jitter
+     */
+    private retryDelay(error: unknown, attempt: number): number {
+        if ((error instanceof RateLimitError || error instanceof LLMServerError) && error.retryAfterMs !== undefined) {
+            return Math.min(error.retryAfterMs, this.options.maxDelayMs);
+        }
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+        return Math.random() * ceiling;
+    }
+
+    private isRetryable(error: unknown, signal?: AbortSignal): boolean {
+        if (signal?.aborted) {
+            return false;
+        }
+        if (error instanceof LLMError) {
+            return error.retryable;
+        }
+        // fetch rejects with a TypeError on network failures
+        return error instanceof TypeError;
+    }
+
+    /**
+     * Run one attempt with a timeout that also honours the caller's signal.
+     * An already aborted signal fails before the request is sent.
+     */
+    private async withTimeout<T>(
+        options: LLMRequestOptions,
+        run: (options: LLMRequestOptions) => Promise<T>
+    ): Promise<T> {
+        if (options.signal?.aborted) {
+            throw createAbortError();
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, this.options.timeoutMs);
+
+        try {
+            return await run({ ...options, signal: controller.signal });
+        } catch (error) {
+            if (timedOut) {
+                throw new LLMTimeoutError(this.options.timeoutMs);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Retry `run` on retryable failures
+     */
+    protected async withRetries<T>(options: LLMRequestOptions, run: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await run();
+            } catch (error) {
+                if (attempt >= this.options.maxRetries || !this.isRetryable(error, options.signal)) {
+                    throw error;
+                }
+                await sleep(this.retryDelay(error, attempt), options.signal);
+            }
+        }
+    }
+
+    async generateCompletion(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResponse> {
+        return this.withRetries(options, async () => {
+            const settle = await this.rateLimiter?.acquire(estimateRequestTokens(messages, options), options.signal);
+            const response = await this.withTimeout(options, attemptOptions =>
+                this.provider.generateCompletion(messages, attemptOptions)
+            );
+            if (settle && response.usage) {
+                settle(response.usage.totalTokens);
+            }
+            return response;
+        });
+    }
+
+}
+
+/**
+ * A stream that has produced its first chunk. `next` reads the following
+ * chunk under the idle timeout; `close` detaches the caller's signal and
+ * stops the underlying request.
+ */
+interface OpenStream {
+    first: IteratorResult<LLMResponse>;
+    next: () => Promise<IteratorResult<LLMResponse>>;
+    close: () => Promise<void>;
+}
+
+/**
+ * ResilientLLMProvider for providers that can stream
+ */
+export class ResilientStreamingLLMProvider extends ResilientLLMProvider {
+    /**
+     * Open one stream attempt. The caller's signal stays linked to the
+     * request until `close`. Each chunk, the first included, must arrive
+     * within `timeoutMs` of the previous one.
+     */
+    private async openStream(messages: LLMMessage[], options: LLMRequestOptions): Promise<OpenStream> {
+        if (options.signal?.aborted) {
+            throw createAbortError();
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const iterator = this.provider.generateStream!(messages, { ...options, signal: controller.signal });
+
+        const next = async (): Promise<IteratorResult<LLMResponse>> => {
+            let timedOut = false;
+            const timer = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, this.options.timeoutMs);
+
+            try {
+                return await iterator.next();
+            } catch (error) {
+                if (timedOut) {
+                    throw new LLMTimeoutError(this.options.timeoutMs);
+                }
+                throw error;
+            } finally {
+                clearTimeout(timer);
+            }
+        };
+
+        const close = async () => {
+            options.signal?.removeEventListener('abort', onAbort);
+            controller.abort();
+            await Promise.resolve(iterator.return?.()).catch(() => undefined);
+        };
+
+        try {
+            return { first: await next(), next, close };
+        } catch (error) {
+            await close();
+            throw error;
+        }
+    }
+
+    /**
+     * Streams are retried only until the first chunk arrives; a stream that
+     * stalls for `timeoutMs` later on fails with LLMTimeoutError. Aborting
+     * the caller's signal or leaving the loop early closes the request.
+     */
+    async *generateStream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterableIterator<LLMResponse> {
+        const stream = await this.withRetries(options, async () => {
+            await this.rateLimiter?.acquire(estimateRequestTokens(messages, options), options.signal);
+            return this.openStream(messages, options);
+        });
+
+        try {
+            for (let result = stream.first; !result.done; result = await stream.next()) {
+                yield result.value;
+            }
+        } finally {
+            await stream.close();
+        }
+    }
+}
+
+/**
+ * Wrap a provider with timeouts, retries and rate limiting. The result
+ * streams only if the wrapped provider does.
+ */
+export function withResilience(provider: LLMProvider, options: ResilienceOptions = {}): LLMProvider {
+    return provider.generateStream
+        ? new ResilientStreamingLLMProvider(provider, options)
+        : new ResilientLLMProvider(provider, options);
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * const llm = withResilience(new OpenAIProvider(config), {
+ *   timeoutMs: 20000,
+ *   maxRetries: 4,
+ *   rateLimit: { requestsPerMinute: 50, tokensPerMinute: 40000 }
+ * });
+ *
+ * // Retries 429/5xx responses, then throws a typed error
+ * const response = await llm.generateCompletion(messages);
+ * ```
+ */
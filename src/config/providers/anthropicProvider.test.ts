@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider, ANTHROPIC_VERSION, toAnthropicMessages } from './anthropicProvider';
+import { AuthError, ContextLengthError, LLMError, LLMServerError, RateLimitError } from '../llmErrors';
+import { LLMResponse } from '../llm.config';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+type StubHandler = (request: RecordedRequest, response: http.ServerResponse) => void;
+
+/**
+ * Local HTTP server that records requests and answers with `handler`
+ */
+async function startStubServer(handler: StubHandler) {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            const request = { method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+            requests.push(request);
+            handler(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+function replyJson(status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): StubHandler {
+    return (_request, response) => {
+        response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        response.end(JSON.stringify(body));
+    };
+}
+
+const MESSAGE_REPLY = {
+    content: [{ type: 'text', text: 'Hello' }, { type: 'tool_use' }, { type: 'text', text: ' there' }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 12, output_tokens: 3 }
+};
+
+describe('toAnthropicMessages', () => {
+    it('moves system messages to the top-level prompt and joins same-role turns', () => {
+        expect(toAnthropicMessages([
+            { role: 'system', content: 'You are Aria.' },
+            { role: 'user', content: 'Hi' },
+            { role: 'user', content: 'Are you there?' },
+            { role: 'system', content: 'Be brief.' },
+            { role: 'assistant', content: 'Yes.' }
+        ])).toEqual({
+            system: 'You are Aria.\n\nBe brief.',
+            messages: [
+                { role: 'user', content: 'Hi\n\nAre you there?' },
+                { role: 'assistant', content: 'Yes.' }
+            ]
+        });
+    });
+
+    it('appends a leading assistant turn to the system prompt', () => {
+        expect(toAnthropicMessages([
+            { role: 'system', content: 'You are Aria.' },
+            { role: 'assistant', content: 'Welcome back!' },
+            { role: 'user', content: 'Thanks' }
+        ])).toEqual({
+            system: 'You are Aria.\n\nWelcome back!',
+            messages: [{ role: 'user', content: 'Thanks' }]
+        });
+    });
+
+    it.each([
+        ['only system messages', [{ role: 'system' as const, content: 'You are Aria.' }]],
+        ['system messages and a leading assistant turn', [
+            { role: 'system' as const, content: 'You are Aria.' },
+            { role: 'assistant' as const, content: 'Welcome back!' }
+        ]]
+    ])('throws LLMError when %s leave no user turn', (_case, messages) => {
+        expect(() => toAnthropicMessages(messages)).toThrow(LLMError);
+    });
+
+    it('omits the system prompt when there is none', () => {
+        expect(toAnthropicMessages([{ role: 'user', content: 'Hi' }]).system).toBeUndefined();
+    });
+});
+
+describe('AnthropicProvider', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>> | undefined;
+
+    afterEach(async () => {
+        await stub?.close();
+        stub = undefined;
+    });
+
+    it('sends the system prompt at the top level with the API headers', async () => {
+        stub = await startStubServer(replyJson(200, MESSAGE_REPLY));
+        const provider = new AnthropicProvider({ provider: 'anthropic', model: 'claude-test', apiKey: 'key', baseUrl: stub.url });
+
+        const response = await provider.generateCompletion([
+            { role: 'system', content: 'You are Aria.' },
+            { role: 'user', content: 'Hi' }
+        ], { maxTokens: 50 });
+
+        expect(response).toEqual({
+            content: 'Hello there',
+            usage: { totalTokens: 15, promptTokens: 12, completionTokens: 3 },
+            metadata: { finishReason: 'end_turn' }
+        });
+        const [request] = stub.requests;
+        expect(request.method).toBe('POST');
+        expect(request.headers).toMatchObject({ 'x-api-key': 'key', 'anthropic-version': ANTHROPIC_VERSION });
+        expect(request.body).toMatchObject({
+            model: 'claude-test',
+            system: 'You are Aria.',
+            messages: [{ role: 'user', content: 'Hi' }],
+            max_tokens: 50
+        });
+    });
+
+    it('joins the base URL and path without doubling slashes', async () => {
+        stub = await startStubServer(replyJson(200, MESSAGE_REPLY));
+        const provider = new AnthropicProvider({ provider: 'anthropic', model: 'claude-test', baseUrl: `${stub.url}/proxy//` });
+
+        await provider.generateCompletion([{ role: 'user', content: 'Hi' }]);
+
+        expect(stub.requests[0].url).toBe('/proxy/v1/messages');
+    });
+
+    it.each([
+        [429, { 'retry-after': '2' }, 'rate limited', RateLimitError],
+        [401, {}, 'invalid x-api-key', AuthError],
+        [400, {}, 'prompt is too long: 250000 tokens > 200000 maximum', ContextLengthError],
+        [529, {}, 'Overloaded', LLMServerError]
+    ])('maps status %i to a typed error', async (status, headers, message, ErrorType) => {
+        stub = await startStubServer(replyJson(status, { type: 'error', error: { message } }, headers));
+        const provider = new AnthropicProvider({ provider: 'anthropic', model: 'claude-test', baseUrl: stub.url });
+
+        const error = await provider.generateCompletion([{ role: 'user', content: 'Hi' }]).catch(e => e);
+
+        expect(error).toBeInstanceOf(ErrorType);
+        expect(error.status).toBe(status);
+        if (error instanceof RateLimitError) {
+            expect(error.retryAfterMs).toBe(2000);
+        }
+    });
+
+    it('streams text deltas and reports usage in the final chunk', async () => {
+        stub = await startStubServer((_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            response.end([
+                { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+                { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+                { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+                { type: 'message_stop' }
+            ].map(event => `event: ${event.type}\r\ndata: ${JSON.stringify(event)}\r\n\r\n`).join(''));
+        });
+        const provider = new AnthropicProvider({ provider: 'anthropic', model: 'claude-test', baseUrl: stub.url });
+
+        const chunks: LLMResponse[] = [];
+        for await (const chunk of provider.generateStream([{ role: 'user', content: 'Hi' }])) {
+            chunks.push(chunk);
+        }
+
+        expect(stub.requests[0].body.stream).toBe(true);
+        expect(chunks).toEqual([
+            { content: 'Hel' },
+            { content: 'lo' },
+            {
+                content: '',
+                usage: { totalTokens: 14, promptTokens: 12, completionTokens: 2 },
+                metadata: { done: true, finishReason: 'end_turn' }
+            }
+        ]);
+    });
+
+    it('maps an error event received mid-stream to a typed error', async () => {
+        stub = await startStubServer((_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            response.end(`event: error\ndata: ${JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })}\n\n`);
+        });
+        const provider = new AnthropicProvider({ provider: 'anthropic', model: 'claude-test', baseUrl: stub.url });
+
+        const stream = provider.generateStream([{ role: 'user', content: 'Hi' }]);
+
+        await expect(stream.next()).rejects.toBeInstanceOf(LLMServerError);
+    });
+});
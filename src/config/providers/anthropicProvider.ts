@@ -0,0 +1,229 @@
+import {
+    DEFAULT_CONFIG,
+    LLMConfig,
+    LLMMessage,
+    LLMProvider,
+    LLMRequestOptions,
+    LLMResponse
+} from '../llm.config';
+import { LLMError, LLMServerError, RateLimitError, createLLMErrorFromResponse } from '../llmErrors';
+import { readServerSentEvents } from './sse';
+
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Message as accepted by the Anthropic Messages API
+ */
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Subset of the Messages API response we rely on
+ */
+interface AnthropicResponse {
+    content: {
+        type: string;
+        text?: string;
+    }[];
+    stop_reason?: string;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+/**
+ * Subset of the streaming events we rely on
+ */
+interface AnthropicStreamEvent {
+    type: string;
+    message?: {
+        usage?: {
+            input_tokens: number;
+            output_tokens?: number;
+        };
+    };
+    delta?: {
+        type?: string;
+        text?: string;
+        stop_reason?: string;
+    };
+    usage?: {
+        output_tokens: number;
+    };
+    error?: {
+        type: string;
+        message: string;
+    };
+}
+
+/**
+ * Split messages into the top-level system prompt and the alternating
+ * user/assistant turns the Messages API requires. Consecutive turns from
+ * the same role are joined. The conversation must open with a user turn,
+ * so a leading assistant turn is appended to the system prompt instead.
+ * Throws LLMError when no user turn is left to send.
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): { system?: string; messages: AnthropicMessage[] } {
+    const system = messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content);
+
+    const turns: AnthropicMessage[] = [];
+    for (const message of messages) {
+        if (message.role === 'system') {
+            continue;
+        }
+        const last = turns[turns.length - 1];
+        if (last && last.role === message.role) {
+            last.content = `${last.content}\n\n${message.content}`;
+        } else {
+            turns.push({ role: message.role, content: message.content });
+        }
+    }
+
+    if (turns.length > 0 && turns[0].role === 'assistant') {
+        system.push(turns.shift()!.content);
+    }
+    if (turns.length === 0) {
+        throw new LLMError('Anthropic requests need at least one user message');
+    }
+
+    return {
+        system: system.join('\n\n') || undefined,
+        messages: turns
+    };
+}
+
+/**
+ * Map an error event received mid-stream to a typed error
+ */
+function createStreamError(error: AnthropicStreamEvent['error']): LLMError {
+    const message = `LLM stream failed: ${error?.message ?? 'unknown error'}`;
+    switch (error?.type) {
+        case 'rate_limit_error':
+            return new RateLimitError(message);
+        case 'overloaded_error':
+        case 'api_error':
+            return new LLMServerError(message);
+        default:
+            return new LLMError(message);
+    }
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+    protected readonly config: LLMConfig;
+    protected readonly baseUrl: string;
+
+    constructor(config: LLMConfig) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.baseUrl = (config.baseUrl ?? ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+    }
+
+    protected buildHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.config.apiKey ?? '',
+            'anthropic-version': ANTHROPIC_VERSION
+        };
+    }
+
+    protected buildBody(messages: LLMMessage[], options: LLMRequestOptions): Record<string, unknown> {
+        const { system, messages: turns } = toAnthropicMessages(messages);
+        return {
+            model: this.config.model,
+            system,
+            messages: turns,
+            max_tokens: options.maxTokens ?? this.config.maxTokens,
+            temperature: options.temperature ?? this.config.temperature
+        };
+    }
+
+    async generateCompletion(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResponse> {
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify(this.buildBody(messages, options)),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            throw await createLLMErrorFromResponse(response);
+        }
+
+        const data = await response.json() as AnthropicResponse;
+        const content = data.content
+            .filter(block => block.type === 'text')
+            .map(block => block.text ?? '')
+            .join('');
+
+        return {
+            content,
+            usage: data.usage && {
+                totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+                promptTokens: data.usage.input_tokens,
+                completionTokens: data.usage.output_tokens
+            },
+            metadata: data.stop_reason ? { finishReason: data.stop_reason } : undefined
+        };
+    }
+
+    /**
+     * Stream the completion over server-sent events. Yields one chunk per
+     * text delta, then a final chunk with `metadata.done` and usage totals.
+     */
+    async *generateStream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterableIterator<LLMResponse> {
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify({ ...this.buildBody(messages, options), stream: true }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw await createLLMErrorFromResponse(response);
+        }
+
+        let promptTokens = 0;
+        let completionTokens = 0;
+        let finishReason: string | undefined;
+
+        for await (const sse of readServerSentEvents(response.body)) {
+            const event = JSON.parse(sse.data) as AnthropicStreamEvent;
+
+            switch (event.type) {
+                case 'message_start':
+                    promptTokens = event.message?.usage?.input_tokens ?? 0;
+                    completionTokens = event.message?.usage?.output_tokens ?? 0;
+                    break;
+                case 'content_block_delta':
+                    if (event.delta?.type === 'text_delta' && event.delta.text) {
+                        yield { content: event.delta.text };
+                    }
+                    break;
+                case 'message_delta':
+                    completionTokens = event.usage?.output_tokens ?? completionTokens;
+                    finishReason = event.delta?.stop_reason ?? finishReason;
+                    break;
+                case 'error':
+                    throw createStreamError(event.error);
+            }
+        }
+
+        yield {
+            content: '',
+            usage: {
+                totalTokens: promptTokens + completionTokens,
+                promptTokens,
+                completionTokens
+            },
+            metadata: { done: true, finishReason }
+        };
+    }
+}
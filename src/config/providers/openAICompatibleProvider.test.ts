@@ -0,0 +1,179 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, OpenAIProvider } from './openAICompatibleProvider';
+import { AuthError, ContextLengthError, LLMError, LLMServerError, RateLimitError } from '../llmErrors';
+import { LLMResponse } from '../llm.config';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+type StubHandler = (request: RecordedRequest, response: http.ServerResponse) => void;
+
+/**
+ * Local HTTP server that records requests and answers with `handler`
+ */
+async function startStubServer(handler: StubHandler) {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            const request = { method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+            requests.push(request);
+            handler(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+function replyJson(status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): StubHandler {
+    return (_request, response) => {
+        response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        response.end(JSON.stringify(body));
+    };
+}
+
+const COMPLETION_REPLY = {
+    choices: [{ message: { content: 'Hello there' }, finish_reason: 'stop' }],
+    usage: { total_tokens: 15, prompt_tokens: 12, completion_tokens: 3 }
+};
+
+describe('OpenAICompatibleProvider', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>> | undefined;
+
+    afterEach(async () => {
+        await stub?.close();
+        stub = undefined;
+    });
+
+    it('keeps system messages in the message list, in order', async () => {
+        stub = await startStubServer(replyJson(200, COMPLETION_REPLY));
+        const provider = new OpenAIProvider({ provider: 'openai', model: 'gpt-test', apiKey: 'key', baseUrl: stub.url });
+
+        const response = await provider.generateCompletion([
+            { role: 'system', content: 'You are Aria.' },
+            { role: 'user', content: 'Hi' },
+            { role: 'system', content: 'Be brief.' }
+        ], { temperature: 0.2 });
+
+        expect(response).toEqual({
+            content: 'Hello there',
+            usage: { totalTokens: 15, promptTokens: 12, completionTokens: 3 },
+            metadata: { finishReason: 'stop' }
+        });
+        const [request] = stub.requests;
+        expect(request.headers.authorization).toBe('Bearer key');
+        expect(request.body).toMatchObject({
+            model: 'gpt-test',
+            messages: [
+                { role: 'system', content: 'You are Aria.' },
+                { role: 'user', content: 'Hi' },
+                { role: 'system', content: 'Be brief.' }
+            ],
+            temperature: 0.2
+        });
+        expect(request.body).not.toHaveProperty('system');
+    });
+
+    it('omits the Authorization header without an API key', async () => {
+        stub = await startStubServer(replyJson(200, COMPLETION_REPLY));
+        const provider = new OpenAICompatibleProvider({ provider: 'local', model: 'llama3', baseUrl: stub.url });
+
+        await provider.generateCompletion([{ role: 'user', content: 'Hi' }]);
+
+        expect(stub.requests[0].headers).not.toHaveProperty('authorization');
+    });
+
+    it.each([
+        ['/v1', '/v1/chat/completions'],
+        ['/v1/', '/v1/chat/completions'],
+        ['/openai/v1//', '/openai/v1/chat/completions']
+    ])('joins base URL path %s to %s', async (basePath, expected) => {
+        stub = await startStubServer(replyJson(200, COMPLETION_REPLY));
+        const provider = new OpenAICompatibleProvider({ provider: 'local', model: 'llama3', baseUrl: `${stub.url}${basePath}` });
+
+        await provider.generateCompletion([{ role: 'user', content: 'Hi' }]);
+
+        expect(stub.requests[0].url).toBe(expected);
+    });
+
+    it.each([
+        [429, { 'retry-after': '3' }, 'Rate limit reached', RateLimitError],
+        [403, {}, 'Forbidden', AuthError],
+        [400, {}, "This model's maximum context length is 8192 tokens", ContextLengthError],
+        [503, {}, 'Service unavailable', LLMServerError],
+        [404, {}, 'Not found', LLMError]
+    ])('maps status %i to a typed error', async (status, headers, message, ErrorType) => {
+        stub = await startStubServer(replyJson(status, { error: { message } }, headers));
+        const provider = new OpenAICompatibleProvider({ provider: 'local', model: 'llama3', baseUrl: stub.url });
+
+        const error = await provider.generateCompletion([{ role: 'user', content: 'Hi' }]).catch(e => e);
+
+        expect(error).toBeInstanceOf(ErrorType);
+        expect(error.constructor).toBe(ErrorType);
+        expect(error.status).toBe(status);
+        if (error instanceof RateLimitError) {
+            expect(error.retryAfterMs).toBe(3000);
+        }
+    });
+
+    it('streams content deltas until [DONE] and reports usage in the final chunk', async () => {
+        stub = await startStubServer((_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            response.end([
+                { choices: [{ delta: { content: 'Hel' } }] },
+                { choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+                { choices: [], usage: { total_tokens: 14, prompt_tokens: 12, completion_tokens: 2 } }
+            ].map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n');
+        });
+        const provider = new OpenAICompatibleProvider({ provider: 'local', model: 'llama3', baseUrl: stub.url });
+
+        const chunks: LLMResponse[] = [];
+        for await (const chunk of provider.generateStream([{ role: 'user', content: 'Hi' }])) {
+            chunks.push(chunk);
+        }
+
+        expect(stub.requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+        expect(chunks).toEqual([
+            { content: 'Hel' },
+            { content: 'lo' },
+            {
+                content: '',
+                usage: { totalTokens: 14, promptTokens: 12, completionTokens: 2 },
+                metadata: { done: true, finishReason: 'stop' }
+            }
+        ]);
+    });
+
+    it.each([
+        ['server_error', { type: 'server_error', message: 'The server had an error' }, LLMServerError],
+        ['rate_limit_exceeded', { type: 'requests', code: 'rate_limit_exceeded', message: 'Slow down' }, RateLimitError],
+        ['untyped', { message: 'Something went wrong' }, LLMError]
+    ])('maps a mid-stream %s error payload to a typed error', async (_kind, error, ErrorType) => {
+        stub = await startStubServer((_request, response) => {
+            response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            response.end(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n` +
+                `data: ${JSON.stringify({ error })}\n\n`);
+        });
+        const provider = new OpenAICompatibleProvider({ provider: 'local', model: 'llama3', baseUrl: stub.url });
+
+        const stream = provider.generateStream([{ role: 'user', content: 'Hi' }]);
+        expect(await stream.next()).toEqual({ done: false, value: { content: 'Hel' } });
+
+        const thrown = await stream.next().catch(e => e);
+        expect(thrown).toBeInstanceOf(ErrorType);
+        expect(thrown.constructor).toBe(ErrorType);
+        expect(thrown.message).toBe(`LLM stream failed: ${error.message}`);
+    });
+});
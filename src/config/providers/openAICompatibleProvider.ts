@@ -0,0 +1,206 @@
+import {
+    DEFAULT_CONFIG,
+    LLMConfig,
+    LLMMessage,
+    LLMProvider,
+    LLMRequestOptions,
+    LLMResponse
+} from '../llm.config';
+import {
+    ContextLengthError,
+    LLMError,
+    LLMServerError,
+    RateLimitError,
+    createLLMErrorFromResponse
+} from '../llmErrors';
+import { readServerSentEvents } from './sse';
+
+/**
+ * Default endpoint for local OpenAI-compatible servers (llama.cpp)
+ */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:8080/v1';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Subset of the chat completions response we rely on
+ */
+interface ChatCompletionResponse {
+    choices: {
+        message: {
+            content: string | null;
+        };
+        finish_reason?: string | null;
+    }[];
+    usage?: {
+        total_tokens: number;
+        prompt_tokens: number;
+        completion_tokens: number;
+    };
+}
+
+/**
+ * Subset of a streamed chat completion chunk we rely on
+ */
+interface ChatCompletionChunk {
+    choices?: {
+        delta?: {
+            content?: string | null;
+        };
+        finish_reason?: string | null;
+    }[];
+    usage?: ChatCompletionResponse['usage'] | null;
+    error?: {
+        message?: string;
+        type?: string;
+        code?: string | number | null;
+    };
+}
+
+/**
+ * Map an error payload received mid-stream to a typed error
+ */
+function createStreamError(error: ChatCompletionChunk['error']): LLMError {
+    const message = `LLM stream failed: ${error?.message ?? 'unknown error'}`;
+    const kind = `${error?.type ?? ''} ${error?.code ?? ''}`;
+    if (/rate_limit/.test(kind)) {
+        return new RateLimitError(message);
+    }
+    if (/context_length/.test(kind)) {
+        return new ContextLengthError(message);
+    }
+    if (/server_error|overloaded/.test(kind)) {
+        return new LLMServerError(message);
+    }
+    return new LLMError(message);
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API:
+ * OpenAI itself, llama.cpp, vLLM, Ollama and similar servers. System
+ * messages stay in the message list, as that API expects.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    protected readonly config: LLMConfig;
+    protected readonly baseUrl: string;
+
+    constructor(config: LLMConfig, defaultBaseUrl: string = DEFAULT_LOCAL_BASE_URL) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.baseUrl = (config.baseUrl ?? defaultBaseUrl).replace(/\/+$/, '');
+    }
+
+    /**
+     * Request headers; the Authorization header is only sent when an API key is set
+     */
+    protected buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Request body for the chat completions endpoint
+     */
+    protected buildBody(messages: LLMMessage[], options: LLMRequestOptions): Record<string, unknown> {
+        return {
+            model: this.config.model,
+            messages: messages.map(({ role, content, name }) => ({ role, content, name })),
+            max_tokens: options.maxTokens ?? this.config.maxTokens,
+            temperature: options.temperature ?? this.config.temperature
+        };
+    }
+
+    async generateCompletion(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMResponse> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify(this.buildBody(messages, options)),
+            signal: options.signal
+        });
+
+        if (!response.ok) {
+            throw await createLLMErrorFromResponse(response);
+        }
+
+        const data = await response.json() as ChatCompletionResponse;
+        const choice = data.choices[0];
+
+        return {
+            content: choice?.message.content ?? '',
+            usage: data.usage && {
+                totalTokens: data.usage.total_tokens,
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens
+            },
+            metadata: choice?.finish_reason ? { finishReason: choice.finish_reason } : undefined
+        };
+    }
+
+    /**
+     * Stream the completion over server-sent events. Yields one chunk per
+     * content delta, then a final chunk with `metadata.done` and usage totals.
+     */
+    async *generateStream(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncIterableIterator<LLMResponse> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify({
+                ...this.buildBody(messages, options),
+                stream: true,
+                stream_options: { include_usage: true }
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw await createLLMErrorFromResponse(response);
+        }
+
+        let usage: LLMResponse['usage'];
+        let finishReason: string | undefined;
+
+        for await (const event of readServerSentEvents(response.body)) {
+            if (event.data === '[DONE]') {
+                break;
+            }
+
+            const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+            if (event.event === 'error' || chunk.error) {
+                throw createStreamError(chunk.error);
+            }
+            if (chunk.usage) {
+                usage = {
+                    totalTokens: chunk.usage.total_tokens,
+                    promptTokens: chunk.usage.prompt_tokens,
+                    completionTokens: chunk.usage.completion_tokens
+                };
+            }
+
+            const choice = chunk.choices?.[0];
+            finishReason = choice?.finish_reason ?? finishReason;
+            const content = choice?.delta?.content;
+            if (content) {
+                yield { content };
+            }
+        }
+
+        yield {
+            content: '',
+            usage,
+            metadata: { done: true, finishReason }
+        };
+    }
+}
+
+/**
+ * OpenAI provider
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+    constructor(config: LLMConfig) {
+        super(config, OPENAI_BASE_URL);
+    }
+}
@@ -0,0 +1,76 @@
+import { ServerSentEvent, readServerSentEvents } from './sse';
+
+/**
+ * A response body that delivers each string as a separate network chunk
+ */
+function streamOf(chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+            controller.close();
+        }
+    });
+}
+
+async function readAll(chunks: (string | Uint8Array)[]): Promise<ServerSentEvent[]> {
+    const events: ServerSentEvent[] = [];
+    for await (const event of readServerSentEvents(streamOf(chunks))) {
+        events.push(event);
+    }
+    return events;
+}
+
+describe('readServerSentEvents', () => {
+    it('parses events with names and multi-line data', async () => {
+        expect(await readAll([': keep-alive\n\nevent: delta\ndata: one\ndata:  two\nid: 7\n\ndata: three\n\n'])).toEqual([
+            { event: 'delta', data: 'one\n two' },
+            { event: undefined, data: 'three' }
+        ]);
+    });
+
+    it('does not dispatch early when a \\r\\n is split across chunks', async () => {
+        expect(await readAll(['event: delta\r', '\ndata: one\r', '\ndata: two\r\n\r', '\ndata: three\r\n\r\n'])).toEqual([
+            { event: 'delta', data: 'one\ntwo' },
+            { event: undefined, data: 'three' }
+        ]);
+    });
+
+    it('accepts bare \\r line endings, including at the end of a chunk', async () => {
+        expect(await readAll(['data: one\r\r', 'data: two\r', '\r'])).toEqual([
+            { event: undefined, data: 'one' },
+            { event: undefined, data: 'two' }
+        ]);
+    });
+
+    it('joins lines and multi-byte characters split across chunks', async () => {
+        const bytes = new TextEncoder().encode('data: café ☕\n\n');
+        expect(await readAll(['da', bytes.slice(2, 9), bytes.slice(9, 13), bytes.slice(13)])).toEqual([
+            { event: undefined, data: 'café ☕' }
+        ]);
+    });
+
+    it('dispatches a final event without a trailing blank line', async () => {
+        expect(await readAll(['data: one\n\ndata: last'])).toEqual([
+            { event: undefined, data: 'one' },
+            { event: undefined, data: 'last' }
+        ]);
+    });
+
+    it('cancels the body when the consumer stops early', async () => {
+        const cancel = jest.fn();
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                controller.enqueue(new TextEncoder().encode('data: tick\n\n'));
+            },
+            cancel
+        });
+
+        for await (const event of readServerSentEvents(body)) {
+            expect(event.data).toBe('tick');
+            break;
+        }
+
+        expect(cancel).toHaveBeenCalled();
+    });
+});
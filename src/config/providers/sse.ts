@@ -0,0 +1,69 @@
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+/**
+ * Parse a server-sent events stream into events. Multi-line `data:` fields
+ * are joined with newlines; comments and unknown fields are ignored.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: string | undefined;
+    let data: string[] = [];
+    let finished = false;
+
+    const dispatch = (): ServerSentEvent | undefined => {
+        const result = data.length > 0 ? { event, data: data.join('\n') } : undefined;
+        event = undefined;
+        data = [];
+        return result;
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            // A trailing \r may be the first half of a \r\n split across chunks;
+            // hold it back so the \n is not read as an extra blank line
+            const heldCarriageReturn = !done && buffer.endsWith('\r');
+            const lines = (heldCarriageReturn ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+            // The last element is an incomplete line unless the stream ended
+            buffer = done ? '' : (lines.pop() ?? '') + (heldCarriageReturn ? '\r' : '');
+
+            for (const line of lines) {
+                if (line === '') {
+                    const dispatched = dispatch();
+                    if (dispatched) {
+                        yield dispatched;
+                    }
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice(5).replace(/^ /, ''));
+                } else if (line.startsWith('event:')) {
+                    event = line.slice(6).trim();
+                }
+            }
+
+            if (done) {
+                finished = true;
+                const dispatched = dispatch();
+                if (dispatched) {
+                    yield dispatched;
+                }
+                return;
+            }
+        }
+    } finally {
+        // Stop the underlying request when the consumer bails out early
+        if (!finished) {
+            await reader.cancel().catch(() => undefined);
+        }
+        reader.releaseLock();
+    }
+}
@@ -1,4 +1,20 @@
-import { MemoryClassification } from '../types/memory.types';
+import { Memory, MemoryClassification } from '../types/memory.types';
+import {
+    LLMError,
+    LLMMessage,
+    LLMProvider,
+    LLMRequestOptions,
+    MockLLMProvider as BaseMockLLMProvider,
+    OpenAIProvider as BaseOpenAIProvider,
+    completePrompt
+} from '../config/llm.config';
+import { parseJsonWithSchema, schema } from '../utils/schema';
+
+/**
+ * Where a classification came from: parsed straight from the model, parsed
+ * after asking the model to repair its output, or the fallback default
+ */
+export type ClassificationSource = 'model' | 'repaired' | 'default';
 
 /**
  * Extended classification interface including narrative elements
@@ -8,79 +24,100 @@ export interface NarrativeClassification extends MemoryClassification {
     user_state?: string;
     scene_details?: string;
     glimpse_id?: string;
+    source: ClassificationSource;
+    /** Validation problems with the model output, when it was repaired or defaulted */
+    issues?: string[];
 }
 
 /**
- * Interface for LLM providers
+ * Canned classification reply for tests and offline development
  */
-export interface LLMProvider {
-    generateCompletion(prompt: string): Promise<string>;
+export class MockClassificationProvider extends BaseMockLLMProvider {
+    constructor() {
+        super(JSON.stringify({
+            observation: "Mock observation of user interaction",
+            user_state: "Neutral, engaging in conversation",
+            scene_details: "Standard interaction context",
+            importance: 0.5,
+            emotion_score: 0,
+            focus_area: "general",
+            interaction_type: "general",
+            suggested_links: []
+        }));
+    }
 }
 
 /**
- * Example OpenAI provider implementation
+ * @deprecated Use MockClassificationProvider
  */
-export class OpenAIProvider implements LLMProvider {
-    private apiKey: string;
-    private model: string;
+export class MockLLMProvider extends MockClassificationProvider {}
 
+/**
+ * @deprecated Use OpenAIProvider from config/llm.config, which takes an LLMConfig
+ */
+export class OpenAIProvider extends BaseOpenAIProvider {
     constructor(apiKey: string, model = 'gpt-4o') {
-        this.apiKey = apiKey;
-        this.model = model;
+        super({ provider: 'openai', apiKey, model, temperature: 0.3, maxTokens: 500 });
     }
+}
 
-    public async generateCompletion(prompt: string): Promise<string> {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey}`
-            },
-            body: JSON.stringify({
-                model: this.model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: 0.3,
-                max_tokens: 500
-            })
-        });
+/**
+ * Shape the model must return
+ */
+const classificationSchema = schema.object({
+    observation: schema.string({ nonEmpty: true }),
+    user_state: schema.optional(schema.string()),
+    scene_details: schema.optional(schema.string()),
+    importance: schema.number(),
+    emotion_score: schema.number(),
+    focus_area: schema.string({ nonEmpty: true }),
+    interaction_type: schema.string({ nonEmpty: true }),
+    suggested_links: schema.optional(schema.array(schema.string()))
+});
 
-        const data = await response.json();
-        return data.choices[0].message.content;
-    }
-}
+/**
+ * Sampling settings for classification requests
+ */
+const CLASSIFICATION_REQUEST_OPTIONS: LLMRequestOptions = {
+    temperature: 0.3,
+    maxTokens: 500
+};
 
 /**
- * Example mock provider for testing
+ * Per-call classification settings
  */
-export class MockLLMProvider implements LLMProvider {
-    public async generateCompletion(): Promise<string> {
-        return JSON.stringify({
-            observation: "Mock observation of user interaction",
-            user_state: "Neutral, engaging in conversation",
-            scene_details: "Standard interaction context",
-            importance: 0.5,
-            emotion_score: 0,
-            focus_area: "general",
-            interaction_type: "general",
-            suggested_links: []
-        });
-    }
+export interface ClassifyOptions {
+    /** Existing memories the model may reference by id in suggested_links */
+    candidates?: Memory[];
+}
+
+export interface ClassificationServiceOptions {
+    /** How many times to ask the model to fix invalid output before defaulting */
+    maxRepairAttempts?: number;
 }
 
 export class ClassificationService {
     private llmProvider: LLMProvider;
+    private maxRepairAttempts: number;
 
-    constructor(llmProvider: LLMProvider) {
+    constructor(llmProvider: LLMProvider, options: ClassificationServiceOptions = {}) {
         this.llmProvider = llmProvider;
+        this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
     }
 
     /**
-     * Classify text using LLM provider
+     * Classify text using LLM provider. Invalid output is sent back to the
+     * model with the validation issues, up to `maxRepairAttempts` times.
      */
-    private async classifyWithLLM(text: string, userContext?: string): Promise<NarrativeClassification> {
+    private async classifyWithLLM(
+        text: string,
+        userContext?: string,
+        options: ClassifyOptions = {}
+    ): Promise<NarrativeClassification> {
         const contextPrompt = userContext
             ? `User message: "${userContext}"\nAI response: "${text}"`
             : `Text to analyze: "${text}"`;
+        const candidatesPrompt = this.formatCandidates(options.candidates ?? []);
 
         const prompt = `Analyze the following interaction and provide a JSON response. Only respond with valid JSON, no markdown:
     {
@@ -94,27 +131,63 @@ export class ClassificationService {
       "suggested_links": []
     }
     
-    ${contextPrompt}
+    ${candidatesPrompt}${contextPrompt}
     `;
 
-        try {
-            const response = await this.llmProvider.generateCompletion(prompt);
-            const result = JSON.parse(response);
-
-            return {
-                observation: result.observation || 'User and AI engaged in conversation.',
-                user_state: result.user_state || 'Neutral, engaging in conversation',
-                scene_details: result.scene_details || 'The interaction is at an early stage, with no specific context established yet.',
-                importance: this.clamp(result.importance || 0.5, 0, 1),
-                emotion_score: this.clamp(result.emotion_score || 0, -1, 1),
-                focus_area: result.focus_area || 'general',
-                interaction_type: result.interaction_type || 'general',
-                suggested_links: Array.isArray(result.suggested_links) ? result.suggested_links : []
-            };
-        } catch (error) {
-            console.error('Error in classification:', error);
-            return this.getDefaultClassification();
+        const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+        let issues: string[] = [];
+
+        for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+            const response = await this.llmProvider.generateCompletion(messages, CLASSIFICATION_REQUEST_OPTIONS);
+            const result = parseJsonWithSchema(response.content, classificationSchema);
+
+            if (result.success) {
+                const value = result.value;
+                return {
+                    observation: value.observation,
+                    user_state: value.user_state ?? 'Neutral, engaging in conversation',
+                    scene_details: value.scene_details ?? 'The interaction is at an early stage, with no specific context established yet.',
+                    importance: this.clamp(value.importance, 0, 1),
+                    emotion_score: this.clamp(value.emotion_score, -1, 1),
+                    focus_area: value.focus_area,
+                    interaction_type: value.interaction_type,
+                    suggested_links: value.suggested_links ?? [],
+                    source: attempt === 0 ? 'model' : 'repaired',
+                    issues: attempt === 0 ? undefined : issues
+                };
+            }
+
+            issues = result.issues.map(issue => `${issue.path} ${issue.message}`);
+            messages.push(
+                { role: 'assistant', content: response.content },
+                {
+                    role: 'user',
+                    content: `That response could not be used: ${issues.join('; ')}. Reply with only the corrected JSON object, no markdown or commentary.`
+                }
+            );
+        }
+
+        console.error('Classification output failed validation:', issues.join('; '));
+        return this.getDefaultClassification(text, issues);
+    }
+
+    /**
+     * Compact list of existing memories for the prompt, one line each
+     */
+    private formatCandidates(candidates: Memory[]): string {
+        if (candidates.length === 0) {
+            return '';
         }
+
+        const lines = candidates.map(memory => {
+            const summary = memory.observation || memory.text;
+            const excerpt = summary.length > 100 ? `${summary.slice(0, 100)}...` : summary;
+            return `- ${memory.id} [${memory.context.focus_area}] ${excerpt}`;
+        });
+        return `Existing memories. If the interaction relates to one, put its id in suggested_links; otherwise use short topic keywords:
+    ${lines.join('\n    ')}
+
+    `;
     }
 
     /**
@@ -125,28 +198,39 @@ export class ClassificationService {
     }
 
     /**
-     * Get default classification values
+     * Default classification, describing the raw text so the memory stays meaningful
      */
-    private getDefaultClassification(): NarrativeClassification {
+    private getDefaultClassification(text: string, issues?: string[]): NarrativeClassification {
+        const excerpt = text.length > 200 ? `${text.slice(0, 200)}...` : text;
         return {
-            observation: '',
+            observation: `Unclassified interaction: ${excerpt}`,
             importance: 0.5,
             emotion_score: 0,
             focus_area: 'general',
             interaction_type: 'general',
-            suggested_links: []
+            suggested_links: [],
+            source: 'default',
+            issues
         };
     }
 
     /**
-     * Classify a single memory text
+     * Classify a single memory text. Provider failures are rethrown as typed
+     * LLMErrors (RateLimitError, AuthError, ...).
      */
-    public async classifyMemory(text: string, userContext?: string): Promise<NarrativeClassification> {
+    public async classifyMemory(
+        text: string,
+        userContext?: string,
+        options: ClassifyOptions = {}
+    ): Promise<NarrativeClassification> {
         try {
-            return await this.classifyWithLLM(text, userContext);
+            return await this.classifyWithLLM(text, userContext, options);
         } catch (error) {
+            if (error instanceof LLMError) {
+                throw error;
+            }
             console.error('Error in memory classification:', error);
-            return this.getDefaultClassification();
+            return this.getDefaultClassification(text);
         }
     }
 
@@ -169,10 +253,13 @@ Text 2: "${text2}"
 
 Respond with only a number between 0 and 1.`;
 
-            const response = await this.llmProvider.generateCompletion(prompt);
+            const response = await completePrompt(this.llmProvider, prompt, CLASSIFICATION_REQUEST_OPTIONS);
             const similarity = parseFloat(response);
             return this.clamp(similarity, 0, 1);
         } catch (error) {
+            if (error instanceof LLMError) {
+                throw error;
+            }
             console.error('Error in similarity analysis:', error);
             return 0;
         }
@@ -184,7 +271,11 @@ Respond with only a number between 0 and 1.`;
  * 
  * ```typescript
  * // Create an LLM provider
- * const llmProvider = new OpenAIProvider('your-api-key');
+ * const llmProvider = createLLMProvider({
+ *   provider: 'openai',
+ *   apiKey: 'your-api-key',
+ *   model: 'gpt-4o'
+ * });
  * 
  * // Initialize classification service
  * const classifier = new ClassificationService(llmProvider);
@@ -193,5 +284,19 @@ Respond with only a number between 0 and 1.`;
  * const classification = await classifier.classifyMemory(
  *   "User expressed excitement about the new feature"
  * );
+ *
+ * // Audit classifier quality
+ * if (classification.source !== 'model') {
+ *   console.warn(`Classification ${classification.source}:`, classification.issues);
+ * }
+ *
+ * // Provider failures surface as typed errors rather than default values
+ * try {
+ *   await classifier.classifyMemory(text);
+ * } catch (error) {
+ *   if (error instanceof AuthError) {
+ *     console.error('Check your API key');
+ *   }
+ * }
  * ```
  */
\ No newline at end of file
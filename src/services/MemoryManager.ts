@@ -1,5 +1,29 @@
 import { EventEmitter } from 'events';
-import { Memory, MemorySearchParams, MemoryUpdateEvent } from '../types/memory.types';
+import {
+    ActivatedMemory,
+    Memory,
+    MemoryGraph,
+    MemoryLink,
+    MemoryLinkType,
+    MemorySearchParams,
+    MemoryUpdateEvent,
+    MergeProvenance,
+    ScoredMemory
+} from '../types/memory.types';
+import { EmbeddingProvider, cosineSimilarity } from './embeddingProvider';
+import {
+    MemoryNeighbor,
+    NeighborOptions,
+    buildMemoryGraph,
+    findShortestPath,
+    getConnectedComponents,
+    getKHopNeighborhood,
+    getNeighbors
+} from './memoryGraph';
+import { RelevanceOptions, lexicalSimilarity, scoreMemory } from './relevanceScorer';
+import { DEFAULT_SPREADING_ACTIVATION, spreadActivation } from './spreadingActivation';
+import { Tokenizer, defaultTokenizer } from './tokenizer';
+import { loadMemoryDocument, memoryMigrations, validateMemory } from '../utils/documentSchemas';
 
 /**
  * Interface for memory storage providers
@@ -9,6 +33,131 @@ export interface MemoryStorageProvider {
     saveMemories(memories: Memory[]): Promise<void>;
 }
 
+/**
+ * Storage providers that can persist individual changes instead of
+ * rewriting the whole memory set
+ */
+export interface IncrementalMemoryStorageProvider extends MemoryStorageProvider {
+    upsertMemories(memories: Memory[]): Promise<void>;
+    deleteMemories(ids: string[]): Promise<void>;
+    patchMemory(id: string, patch: Partial<Memory>): Promise<void>;
+}
+
+/**
+ * Check whether a storage provider supports incremental writes
+ */
+export function isIncrementalStorageProvider(
+    provider: MemoryStorageProvider
+): provider is IncrementalMemoryStorageProvider {
+    const candidate = provider as Partial<IncrementalMemoryStorageProvider>;
+    return typeof candidate.upsertMemories === 'function' &&
+        typeof candidate.deleteMemories === 'function' &&
+        typeof candidate.patchMemory === 'function';
+}
+
+/**
+ * Adapts a whole-array provider to the incremental contract by keeping a
+ * snapshot of the stored set and saving it after each batch of changes
+ */
+export class WholeArrayStorageAdapter implements IncrementalMemoryStorageProvider {
+    private readonly provider: MemoryStorageProvider;
+    private snapshot?: Map<string, Memory>;
+
+    constructor(provider: MemoryStorageProvider) {
+        this.provider = provider;
+    }
+
+    private async getSnapshot(): Promise<Map<string, Memory>> {
+        if (!this.snapshot) {
+            await this.loadMemories();
+        }
+        return this.snapshot!;
+    }
+
+    public async loadMemories(): Promise<Memory[]> {
+        const memories = await this.provider.loadMemories();
+        this.snapshot = new Map(memories.map(memory => [memory.id, memory]));
+        return memories;
+    }
+
+    public async saveMemories(memories: Memory[]): Promise<void> {
+        this.snapshot = new Map(memories.map(memory => [memory.id, memory]));
+        await this.provider.saveMemories(memories);
+    }
+
+    public async upsertMemories(memories: Memory[]): Promise<void> {
+        const snapshot = await this.getSnapshot();
+        memories.forEach(memory => snapshot.set(memory.id, memory));
+        await this.provider.saveMemories(Array.from(snapshot.values()));
+    }
+
+    public async deleteMemories(ids: string[]): Promise<void> {
+        const snapshot = await this.getSnapshot();
+        ids.forEach(id => snapshot.delete(id));
+        await this.provider.saveMemories(Array.from(snapshot.values()));
+    }
+
+    public async patchMemory(id: string, patch: Partial<Memory>): Promise<void> {
+        const snapshot = await this.getSnapshot();
+        const memory = snapshot.get(id);
+        if (!memory) {
+            return;
+        }
+        snapshot.set(id, { ...memory, ...patch });
+        await this.provider.saveMemories(Array.from(snapshot.values()));
+    }
+}
+
+/**
+ * Raised when memories cannot be loaded from storage
+ */
+export class MemoryInitializationError extends Error {
+    public readonly cause: unknown;
+
+    constructor(cause: unknown) {
+        super(`Failed to load memories: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'MemoryInitializationError';
+        this.cause = cause;
+    }
+}
+
+/**
+ * A queued write for a single memory
+ */
+type PendingWrite =
+    | { kind: 'upsert' }
+    | { kind: 'delete' }
+    | { kind: 'patch'; patch: Partial<Memory> };
+
+/**
+ * An in-progress change to the in-memory memories. `track` must be called
+ * before a memory is mutated, added or removed; `commit` queues the writes
+ * and rolls the tracked memories back if that fails.
+ */
+interface MemoryChange {
+    track(ids: string[]): void;
+    commit(writes: [string, PendingWrite][]): Promise<void>;
+}
+
+/**
+ * The same write for each of the given memories
+ */
+function writesFor(ids: string[], write: PendingWrite): [string, PendingWrite][] {
+    return ids.map(id => [id, write]);
+}
+
+/**
+ * Copy of a memory's state, deep enough to undo in-place edits of its lists
+ */
+function snapshotMemory(memory: Memory): Memory {
+    return {
+        ...memory,
+        linked_memories: [...memory.linked_memories],
+        links: memory.links && [...memory.links],
+        tags: memory.tags && [...memory.tags]
+    };
+}
+
 /**
  * Example localStorage implementation of MemoryStorageProvider
  */
@@ -29,14 +178,79 @@ export class LocalStorageProvider implements MemoryStorageProvider {
     }
 }
 
+/**
+ * Options for typed, weighted links
+ */
+export interface LinkOptions {
+    type?: MemoryLinkType;
+    weight?: number;
+}
+
+/**
+ * Link types that hold in both directions
+ */
+const SYMMETRIC_LINK_TYPES: MemoryLinkType[] = ['contradicts', 'same_topic', 'related'];
+
+/**
+ * Optional collaborators and settings for the memory manager
+ */
+export interface MemoryManagerOptions {
+    embeddingProvider?: EmbeddingProvider;
+    relevance?: RelevanceOptions;
+    /** Counts tokens for `spread.max_tokens`; defaults to a local heuristic */
+    tokenizer?: Tokenizer;
+    /** Delay before queued writes are flushed; 0 writes through on every change */
+    writeDebounceMs?: number;
+    /** Flush as soon as this many memories have pending writes */
+    maxPendingWrites?: number;
+}
+
 export class MemoryManager extends EventEmitter {
     private memories: Map<string, Memory> = new Map();
-    private storageProvider: MemoryStorageProvider;
+    private storageProvider: IncrementalMemoryStorageProvider;
+    private embeddingProvider?: EmbeddingProvider;
+    private relevanceOptions: RelevanceOptions;
+    private tokenizer: Tokenizer;
+    private writeDebounceMs: number;
+    private maxPendingWrites: number;
+    private pendingWrites: Map<string, PendingWrite> = new Map();
+    private flushTimer?: ReturnType<typeof setTimeout>;
+    private flushChain: Promise<void> = Promise.resolve();
+    private readonly readyPromise: Promise<void>;
 
-    constructor(storageProvider: MemoryStorageProvider) {
+    constructor(storageProvider: MemoryStorageProvider, options: MemoryManagerOptions = {}) {
         super();
-        this.storageProvider = storageProvider;
-        this.initialize().catch(console.error);
+        this.storageProvider = isIncrementalStorageProvider(storageProvider)
+            ? storageProvider
+            : new WholeArrayStorageAdapter(storageProvider);
+        this.embeddingProvider = options.embeddingProvider;
+        this.relevanceOptions = options.relevance || {};
+        this.tokenizer = options.tokenizer ?? defaultTokenizer;
+        this.writeDebounceMs = options.writeDebounceMs ?? 0;
+        this.maxPendingWrites = options.maxPendingWrites ?? 500;
+        this.readyPromise = this.initialize();
+        // Failures surface through ready() and the 'error' event
+        this.readyPromise.catch(() => undefined);
+    }
+
+    /**
+     * Create a memory manager and wait until its memories are loaded
+     */
+    public static async create(
+        storageProvider: MemoryStorageProvider,
+        options: MemoryManagerOptions = {}
+    ): Promise<MemoryManager> {
+        const manager = new MemoryManager(storageProvider, options);
+        await manager.ready();
+        return manager;
+    }
+
+    /**
+     * Resolves once memories are loaded; rejects with MemoryInitializationError
+     * if loading failed. Every operation waits on this.
+     */
+    public ready(): Promise<void> {
+        return this.readyPromise;
     }
 
     /**
@@ -44,21 +258,170 @@ export class MemoryManager extends EventEmitter {
      */
     private async initialize(): Promise<void> {
         try {
-            const memoriesArray = await this.storageProvider.loadMemories();
+            const memoriesArray = (await this.storageProvider.loadMemories()).map(loadMemoryDocument);
             this.memories.clear();
-            memoriesArray.forEach(memory => this.memories.set(memory.id, memory));
+            const knownIds = new Set(memoriesArray.map(memory => memory.id));
+            memoriesArray.forEach(memory => this.memories.set(memory.id, this.separateTags(memory, knownIds)));
         } catch (error) {
-            console.error('Error initializing MemoryManager:', error);
-            throw error;
+            const initializationError = new MemoryInitializationError(error);
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', initializationError);
+            }
+            throw initializationError;
+        }
+
+        this.emit('ready');
+    }
+
+    /**
+     * Report a background failure (e.g. a debounced flush) through the
+     * 'error' event, falling back to the console when nobody listens
+     */
+    private reportError(error: Error): void {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+        } else {
+            console.error(error);
+        }
+    }
+
+    /**
+     * Queue writes for memories, flushed together. With no debounce they are
+     * flushed immediately; otherwise they are batched until the debounce
+     * timer fires, the pending set grows past maxPendingWrites, or flush() is
+     * called. Every memory being upserted or patched is validated first; if
+     * any is invalid, DocumentValidationError is thrown and nothing is queued.
+     */
+    private async queueWrites(writes: [string, PendingWrite][]): Promise<void> {
+        for (const [id, write] of writes) {
+            const memory = this.memories.get(id);
+            if (write.kind !== 'delete' && memory) {
+                validateMemory(memory);
+            }
+        }
+
+        for (const [id, write] of writes) {
+            this.pendingWrites.set(id, this.combineWrites(this.pendingWrites.get(id), write));
+        }
+
+        if (this.writeDebounceMs <= 0 || this.pendingWrites.size >= this.maxPendingWrites) {
+            await this.flush();
+            return;
+        }
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flush().catch(error => this.reportError(error));
+            }, this.writeDebounceMs);
+        }
+    }
+
+    /**
+     * Start a change. If validation or a write-through fails on commit,
+     * every tracked memory is restored, so memory and storage stay in sync.
+     * With a write debounce, later flush failures surface through the
+     * 'error' event instead.
+     */
+    private beginChange(): MemoryChange {
+        const previous = new Map<string, Memory | undefined>();
+        return {
+            track: ids => ids.forEach(id => {
+                if (!previous.has(id)) {
+                    const memory = this.memories.get(id);
+                    previous.set(id, memory && snapshotMemory(memory));
+                }
+            }),
+            commit: async writes => {
+                try {
+                    await this.queueWrites(writes);
+                } catch (error) {
+                    previous.forEach((memory, id) => {
+                        if (memory) {
+                            this.memories.set(id, memory);
+                        } else {
+                            this.memories.delete(id);
+                        }
+                    });
+                    throw error;
+                }
+            }
+        };
+    }
+
+    /**
+     * Combine a new write with one already queued for the same memory
+     */
+    private combineWrites(existing: PendingWrite | undefined, next: PendingWrite): PendingWrite {
+        if (!existing || next.kind !== 'patch') {
+            return next;
+        }
+        if (existing.kind === 'patch') {
+            return { kind: 'patch', patch: { ...existing.patch, ...next.patch } };
+        }
+        // A pending upsert already carries the latest state; a pending delete wins
+        return existing;
+    }
+
+    /**
+     * Write all queued changes to storage
+     */
+    public async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+
+        const batch = this.pendingWrites;
+        this.pendingWrites = new Map();
+
+        const run = this.flushChain.then(() => this.writeBatch(batch));
+        this.flushChain = run.catch(() => undefined);
+        await run;
+    }
+
+    private async writeBatch(batch: Map<string, PendingWrite>): Promise<void> {
+        const upserts: Memory[] = [];
+        const deletes: string[] = [];
+        const patches: [string, Partial<Memory>][] = [];
+
+        batch.forEach((write, id) => {
+            const memory = this.memories.get(id);
+            if (write.kind === 'delete' || !memory) {
+                deletes.push(id);
+            } else if (write.kind === 'upsert') {
+                upserts.push(memory);
+            } else {
+                patches.push([id, write.patch]);
+            }
+        });
+
+        // Deletes go last, so a batch that fails part-way (e.g. during a
+        // merge) leaves duplicates behind rather than losing memories
+        if (upserts.length > 0) {
+            await this.storageProvider.upsertMemories(upserts);
+        }
+        for (const [id, patch] of patches) {
+            await this.storageProvider.patchMemory(id, patch);
+        }
+        if (deletes.length > 0) {
+            await this.storageProvider.deleteMemories(deletes);
         }
     }
 
     /**
-     * Save current memories to storage
+     * Move entries of linked_memories that are not memory ids (topic tags
+     * such as "astronomy") into the tags field
      */
-    private async saveMemories(): Promise<void> {
-        const memoriesArray = Array.from(this.memories.values());
-        await this.storageProvider.saveMemories(memoriesArray);
+    private separateTags<T extends Pick<Memory, 'linked_memories' | 'tags'>>(memory: T, knownIds: Set<string>): T {
+        const links = memory.linked_memories || [];
+        const tags = links.filter(linkId => !knownIds.has(linkId));
+        if (tags.length === 0) {
+            return memory;
+        }
+
+        memory.linked_memories = links.filter(linkId => knownIds.has(linkId));
+        memory.tags = Array.from(new Set([...(memory.tags || []), ...tags]));
+        return memory;
     }
 
     /**
@@ -68,12 +431,37 @@ export class MemoryManager extends EventEmitter {
         return `>gl${Math.random().toString(16).substring(2, 10)}`;
     }
 
+    /**
+     * Build the text that represents a memory in embedding space
+     */
+    private getEmbeddingText(memory: Pick<Memory, 'text' | 'observation' | 'context' | 'conversation'>): string {
+        return [
+            memory.text,
+            memory.observation,
+            memory.context?.focus_area?.replace(/_/g, ' '),
+            ...(memory.conversation?.user_messages || [])
+        ].filter(Boolean).join('\n');
+    }
+
+    /**
+     * Compute the embedding for a memory, if an embedding provider is configured
+     */
+    private async embedMemory(memory: Memory): Promise<number[] | undefined> {
+        if (!this.embeddingProvider) {
+            return memory.embedding;
+        }
+        return this.embeddingProvider.embed(this.getEmbeddingText(memory));
+    }
+
     /**
      * Create a new memory
      */
     public async createMemory(memory: Omit<Memory, 'id' | 'created_at' | 'glimpse_id'>): Promise<Memory> {
+        await this.ready();
+
         const newMemory: Memory = {
             ...memory,
+            schemaVersion: memoryMigrations.currentVersion,
             id: `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             glimpse_id: this.generateGlimpseId(),
             created_at: Date.now(),
@@ -84,9 +472,13 @@ export class MemoryManager extends EventEmitter {
                 user_messages: []
             }
         };
+        this.separateTags(newMemory, new Set(this.memories.keys()));
+        newMemory.embedding = await this.embedMemory(newMemory);
 
+        const change = this.beginChange();
+        change.track([newMemory.id]);
         this.memories.set(newMemory.id, newMemory);
-        await this.saveMemories();
+        await change.commit(writesFor([newMemory.id], { kind: 'upsert' }));
 
         const event: MemoryUpdateEvent = {
             type: 'create',
@@ -101,6 +493,8 @@ export class MemoryManager extends EventEmitter {
      * Update an existing memory
      */
     public async updateMemory(id: string, updates: Partial<Memory>): Promise<Memory> {
+        await this.ready();
+
         const memory = this.memories.get(id);
         if (!memory) {
             throw new Error(`Memory with id ${id} not found`);
@@ -113,9 +507,17 @@ export class MemoryManager extends EventEmitter {
             created_at: memory.created_at, // Ensure created_at cannot be changed
             glimpse_id: memory.glimpse_id // Ensure glimpse_id cannot be changed
         };
+        if (updates.linked_memories) {
+            this.separateTags(updatedMemory, new Set(this.memories.keys()));
+        }
+        if (!updates.embedding) {
+            updatedMemory.embedding = await this.embedMemory(updatedMemory);
+        }
 
+        const change = this.beginChange();
+        change.track([id]);
         this.memories.set(id, updatedMemory);
-        await this.saveMemories();
+        await change.commit(writesFor([id], { kind: 'upsert' }));
 
         const event: MemoryUpdateEvent = {
             type: 'update',
@@ -130,33 +532,114 @@ export class MemoryManager extends EventEmitter {
      * Delete a memory
      */
     public async deleteMemory(id: string): Promise<void> {
+        await this.ready();
+        await this.removeMemory(id, 'delete');
+    }
+
+    /**
+     * Permanently forget a memory. Behaves like deleteMemory but emits a
+     * 'forget' event so listeners can tell decay apart from explicit deletion.
+     */
+    public async forgetMemory(id: string): Promise<void> {
+        await this.ready();
+        await this.removeMemory(id, 'forget');
+    }
+
+    /**
+     * Archive a memory, hiding it from searches while keeping it restorable
+     */
+    public async archiveMemory(id: string): Promise<Memory> {
+        await this.ready();
+        return this.setMemoryStatus(id, 'archived');
+    }
+
+    /**
+     * Restore an archived memory back into active recall
+     */
+    public async restoreMemory(id: string): Promise<Memory> {
+        await this.ready();
+        return this.setMemoryStatus(id, 'active');
+    }
+
+    /**
+     * Move a memory between the active and archived states
+     */
+    private async setMemoryStatus(id: string, status: 'active' | 'archived'): Promise<Memory> {
         const memory = this.memories.get(id);
         if (!memory) {
             throw new Error(`Memory with id ${id} not found`);
         }
 
+        const change = this.beginChange();
+        change.track([id]);
+        const now = Date.now();
+        if (status === 'archived') {
+            memory.status = 'archived';
+            memory.archived_at = now;
+        } else {
+            memory.status = 'active';
+            delete memory.archived_at;
+            // Restoring counts as an access so the memory does not decay straight back
+            memory.last_accessed = now;
+        }
+
+        await change.commit(writesFor([id], { kind: 'upsert' }));
+
+        const event: MemoryUpdateEvent = {
+            type: status === 'archived' ? 'archive' : 'restore',
+            memory,
+        };
+        this.emit('memoryUpdate', event);
+
+        return memory;
+    }
+
+    /**
+     * Remove a memory and any links pointing at it
+     */
+    private async removeMemory(id: string, eventType: 'delete' | 'forget'): Promise<void> {
+        const memory = this.memories.get(id);
+        if (!memory) {
+            throw new Error(`Memory with id ${id} not found`);
+        }
+
+        const change = this.beginChange();
+        change.track([id]);
         this.memories.delete(id);
 
         // Remove this memory from all linked memories
-        for (const [, mem] of this.memories) {
-            if (mem.linked_memories.includes(id)) {
-                mem.linked_memories = mem.linked_memories.filter(linkId => linkId !== id);
+        const changed: string[] = [];
+        for (const [memId, mem] of this.memories) {
+            const pointsAtMemory = mem.linked_memories.includes(id) ||
+                (mem.links || []).some(link => link.target === id);
+            if (!pointsAtMemory) {
+                continue;
+            }
+            change.track([memId]);
+            mem.linked_memories = mem.linked_memories.filter(linkId => linkId !== id);
+            if (mem.links) {
+                mem.links = mem.links.filter(link => link.target !== id);
             }
+            changed.push(memId);
         }
 
-        await this.saveMemories();
+        await change.commit([...writesFor([id], { kind: 'delete' }), ...writesFor(changed, { kind: 'upsert' })]);
 
         const event: MemoryUpdateEvent = {
-            type: 'delete',
+            type: eventType,
             memory,
         };
         this.emit('memoryUpdate', event);
     }
 
     /**
-     * Link two memories together
+     * Link two memories together. Links are typed and weighted; symmetric
+     * types (same_topic, contradicts, related) are recorded on both memories,
+     * directional ones (causes, elaborates) on the source only.
      */
-    public async linkMemories(sourceId: string, targetId: string): Promise<void> {
+    public async linkMemories(sourceId: string, targetId: string, options: LinkOptions = {}): Promise<void> {
+        await this.ready();
+
         const sourceMemory = this.memories.get(sourceId);
         const targetMemory = this.memories.get(targetId);
 
@@ -164,6 +647,14 @@ export class MemoryManager extends EventEmitter {
             throw new Error('One or both memories not found');
         }
 
+        const type = options.type ?? 'related';
+        const weight = options.weight ?? 1;
+        if (weight < 0 || weight > 1) {
+            throw new Error('Link weight must be between 0 and 1');
+        }
+
+        const change = this.beginChange();
+        change.track([sourceId, targetId]);
         if (!sourceMemory.linked_memories.includes(targetId)) {
             sourceMemory.linked_memories.push(targetId);
         }
@@ -171,7 +662,12 @@ export class MemoryManager extends EventEmitter {
             targetMemory.linked_memories.push(sourceId);
         }
 
-        await this.saveMemories();
+        this.setLink(sourceMemory, { target: targetId, type, weight });
+        if (SYMMETRIC_LINK_TYPES.includes(type)) {
+            this.setLink(targetMemory, { target: sourceId, type, weight });
+        }
+
+        await change.commit(writesFor([sourceId, targetId], { kind: 'upsert' }));
 
         const event: MemoryUpdateEvent = {
             type: 'link',
@@ -181,12 +677,244 @@ export class MemoryManager extends EventEmitter {
         this.emit('memoryUpdate', event);
     }
 
+    /**
+     * Add or replace a typed link on a memory
+     */
+    private setLink(memory: Memory, link: MemoryLink): void {
+        const links = (memory.links || []).filter(existing =>
+            !(existing.target === link.target && existing.type === link.type)
+        );
+        memory.links = [...links, link];
+    }
+
+    /**
+     * Get the memory graph with typed, weighted edges
+     */
+    public async getGraph(): Promise<MemoryGraph> {
+        await this.ready();
+        return buildMemoryGraph(Array.from(this.memories.values()));
+    }
+
+    /**
+     * Direct neighbors of a memory
+     */
+    public async getNeighbors(id: string, options: NeighborOptions = {}): Promise<MemoryNeighbor[]> {
+        return getNeighbors(await this.getGraph(), id, options);
+    }
+
+    /**
+     * Memories within k hops of a memory, mapped to their hop distance
+     */
+    public async getKHopNeighborhood(id: string, k: number, options: NeighborOptions = {}): Promise<Map<string, number>> {
+        return getKHopNeighborhood(await this.getGraph(), id, k, options);
+    }
+
+    /**
+     * Strongest path between two memories, or null if they are not connected
+     */
+    public async findShortestPath(fromId: string, toId: string, options: NeighborOptions = {}): Promise<string[] | null> {
+        return findShortestPath(await this.getGraph(), fromId, toId, options);
+    }
+
+    /**
+     * Groups of memories connected through links
+     */
+    public async getConnectedComponents(): Promise<string[][]> {
+        return getConnectedComponents(await this.getGraph());
+    }
+
+    /**
+     * Merge near-duplicate memories into the earliest one. Conversations are
+     * combined, importance takes the max, emotion is averaged and links are
+     * unioned. Links elsewhere that pointed at merged ids are rewritten to the
+     * survivor. The originals are kept in `metadata.provenance` so the merge
+     * can be undone with unmergeMemory.
+     */
+    public async mergeMemories(ids: string[]): Promise<Memory> {
+        await this.ready();
+
+        const group = Array.from(new Set(ids)).map(id => {
+            const memory = this.memories.get(id);
+            if (!memory) {
+                throw new Error(`Memory with id ${id} not found`);
+            }
+            return memory;
+        });
+        if (group.length < 2) {
+            throw new Error('At least two memories are required to merge');
+        }
+
+        group.sort((a, b) => a.created_at - b.created_at);
+        const survivor = group[0];
+        const mergedIds = new Set(group.map(memory => memory.id));
+        const absorbedIds = new Set(group.slice(1).map(memory => memory.id));
+
+        const unique = (values: string[]) => Array.from(new Set(values));
+
+        const merged: Memory = {
+            ...survivor,
+            embedding: undefined,
+            conversation: {
+                agent_messages: unique(group.flatMap(memory => memory.conversation.agent_messages)),
+                user_messages: unique(group.flatMap(memory => memory.conversation.user_messages))
+            },
+            importance: Math.max(...group.map(memory => memory.importance)),
+            emotion_score: group.reduce((sum, memory) => sum + memory.emotion_score, 0) / group.length,
+            linked_memories: unique(group.flatMap(memory => memory.linked_memories))
+                .filter(linkId => !mergedIds.has(linkId)),
+            links: this.mergeLinks(group.flatMap(memory => memory.links || []))
+                .filter(link => !mergedIds.has(link.target)),
+            tags: unique(group.flatMap(memory => memory.tags || [])),
+            access_count: group.reduce((sum, memory) => sum + (memory.access_count ?? 0), 0) || undefined
+        };
+        // Embed before touching the graph, so a failure here changes nothing
+        merged.embedding = await this.embedMemory(merged);
+
+        const change = this.beginChange();
+        change.track(Array.from(mergedIds));
+
+        // Rewrite links in the rest of the graph to point at the survivor
+        const linkRewrites: MergeProvenance['link_rewrites'] = [];
+        for (const [id, memory] of this.memories) {
+            if (mergedIds.has(id)) {
+                continue;
+            }
+            const replaced = memory.linked_memories.filter(linkId => absorbedIds.has(linkId));
+            const pointsAtAbsorbed = (memory.links || []).some(link => absorbedIds.has(link.target));
+            if (replaced.length === 0 && !pointsAtAbsorbed) {
+                continue;
+            }
+            change.track([id]);
+            linkRewrites.push({
+                id,
+                replaced,
+                had_survivor_link: memory.linked_memories.includes(survivor.id),
+                previous_links: memory.links ? memory.links.map(link => ({ ...link })) : undefined
+            });
+            memory.linked_memories = unique(
+                memory.linked_memories.map(linkId => absorbedIds.has(linkId) ? survivor.id : linkId)
+            );
+            if (memory.links) {
+                memory.links = this.mergeLinks(memory.links.map(link =>
+                    absorbedIds.has(link.target) ? { ...link, target: survivor.id } : link
+                ));
+            }
+        }
+
+        const provenance: MergeProvenance = {
+            merged_at: Date.now(),
+            // Embeddings are dropped from snapshots; they are recomputed on demand
+            sources: group.map(memory => ({
+                ...memory,
+                embedding: undefined,
+                linked_memories: [...memory.linked_memories]
+            })),
+            link_rewrites: linkRewrites
+        };
+        merged.metadata = { ...survivor.metadata, provenance };
+
+        absorbedIds.forEach(id => this.memories.delete(id));
+        this.memories.set(survivor.id, merged);
+        await change.commit([
+            ...writesFor(Array.from(absorbedIds), { kind: 'delete' }),
+            ...writesFor([survivor.id, ...linkRewrites.map(rewrite => rewrite.id)], { kind: 'upsert' })
+        ]);
+
+        const event: MemoryUpdateEvent = {
+            type: 'merge',
+            memory: merged,
+            linked_to: Array.from(absorbedIds),
+        };
+        this.emit('memoryUpdate', event);
+
+        return merged;
+    }
+
+    /**
+     * Collapse duplicate links, keeping the strongest weight per target and type
+     */
+    private mergeLinks(links: MemoryLink[]): MemoryLink[] {
+        const byKey = new Map<string, MemoryLink>();
+        for (const link of links) {
+            const key = `${link.target}|${link.type}`;
+            const existing = byKey.get(key);
+            if (!existing || existing.weight < link.weight) {
+                byKey.set(key, { ...link });
+            }
+        }
+        return Array.from(byKey.values());
+    }
+
+    /**
+     * Undo a merge using the provenance recorded by mergeMemories
+     */
+    public async unmergeMemory(id: string): Promise<Memory[]> {
+        await this.ready();
+
+        const merged = this.memories.get(id);
+        if (!merged) {
+            throw new Error(`Memory with id ${id} not found`);
+        }
+
+        const provenance: MergeProvenance | undefined = merged.metadata?.provenance;
+        if (!provenance) {
+            throw new Error(`Memory with id ${id} has no merge provenance`);
+        }
+
+        const upserted = [
+            ...provenance.sources.map(source => source.id),
+            ...provenance.link_rewrites.map(rewrite => rewrite.id)
+        ];
+        const change = this.beginChange();
+        change.track(upserted);
+
+        provenance.sources.forEach(source => this.memories.set(source.id, source));
+
+        for (const rewrite of provenance.link_rewrites) {
+            const memory = this.memories.get(rewrite.id);
+            if (!memory) {
+                continue;
+            }
+            const links = rewrite.had_survivor_link
+                ? memory.linked_memories
+                : memory.linked_memories.filter(linkId => linkId !== id);
+            memory.linked_memories = Array.from(new Set([...links, ...rewrite.replaced]));
+            if (rewrite.previous_links) {
+                memory.links = rewrite.previous_links;
+            }
+        }
+
+        await change.commit(writesFor(upserted, { kind: 'upsert' }));
+
+        const event: MemoryUpdateEvent = {
+            type: 'unmerge',
+            memory: this.memories.get(id)!,
+            linked_to: provenance.sources.map(source => source.id).filter(sourceId => sourceId !== id),
+        };
+        this.emit('memoryUpdate', event);
+
+        return provenance.sources;
+    }
+
     /**
      * Search memories based on various parameters
      */
     public async searchMemories(params: MemorySearchParams): Promise<Memory[]> {
+        await this.ready();
+
         let results = params.memories || Array.from(this.memories.values());
 
+        if (params.ranking === 'relevance') {
+            const scored = await this.retrieveMemories(params);
+            return scored.map(entry => entry.memory);
+        }
+
+        if (params.semantic && params.query) {
+            results = await this.semanticSearch(params.query, this.applyFilters(results, params), params);
+            await this.recordAccess(results, params);
+            return results;
+        }
+
         if (params.query) {
             const query = params.query.toLowerCase();
             results = results.filter(memory =>
@@ -196,6 +924,28 @@ export class MemoryManager extends EventEmitter {
             );
         }
 
+        results = this.applyFilters(results, params);
+
+        results.sort((a, b) => b.importance - a.importance);
+
+        if (params.limit) {
+            results = results.slice(0, params.limit);
+        }
+
+        await this.recordAccess(results, params);
+        return results;
+    }
+
+    /**
+     * Apply the non-query filters of a search
+     */
+    private applyFilters(memories: Memory[], params: MemorySearchParams): Memory[] {
+        let results = memories;
+
+        if (!params.include_archived) {
+            results = results.filter(memory => memory.status !== 'archived');
+        }
+
         if (params.importance_threshold !== undefined) {
             results = results.filter(memory =>
                 memory.importance >= params.importance_threshold!
@@ -214,6 +964,12 @@ export class MemoryManager extends EventEmitter {
             );
         }
 
+        if (params.tags && params.tags.length > 0) {
+            results = results.filter(memory =>
+                (memory.tags || []).some(tag => params.tags!.includes(tag))
+            );
+        }
+
         if (params.from_date) {
             results = results.filter(memory =>
                 memory.created_at >= params.from_date!
@@ -226,31 +982,163 @@ export class MemoryManager extends EventEmitter {
             );
         }
 
-        results.sort((a, b) => b.importance - a.importance);
+        return results;
+    }
 
-        if (params.limit) {
-            results = results.slice(0, params.limit);
+    /**
+     * Rank memories by cosine similarity to the query embedding
+     */
+    private async semanticSearch(query: string, memories: Memory[], params: MemorySearchParams): Promise<Memory[]> {
+        if (!this.embeddingProvider) {
+            throw new Error('Semantic search requires an embedding provider');
         }
 
-        return results;
+        const similarities = await this.computeSimilarities(query, memories);
+        const minSimilarity = params.min_similarity ?? 0;
+
+        const results = memories
+            .filter(memory => similarities.get(memory.id)! > minSimilarity)
+            .sort((a, b) => similarities.get(b.id)! - similarities.get(a.id)!);
+
+        return params.limit ? results.slice(0, params.limit) : results;
+    }
+
+    /**
+     * Similarity of each memory to the query: cosine over embeddings when an
+     * embedding provider is configured, token overlap otherwise
+     */
+    private async computeSimilarities(query: string, memories: Memory[]): Promise<Map<string, number>> {
+        const similarities = new Map<string, number>();
+
+        if (!this.embeddingProvider) {
+            memories.forEach(memory =>
+                similarities.set(memory.id, lexicalSimilarity(query, this.getEmbeddingText(memory)))
+            );
+            return similarities;
+        }
+
+        const queryEmbedding = await this.embeddingProvider.embed(query);
+        for (const memory of memories) {
+            // Memories loaded from storage may predate the embedding provider
+            if (!memory.embedding) {
+                memory.embedding = await this.embeddingProvider.embed(this.getEmbeddingText(memory));
+            }
+            similarities.set(memory.id, cosineSimilarity(queryEmbedding, memory.embedding));
+        }
+
+        return similarities;
+    }
+
+    /**
+     * Retrieve memories ranked by composite relevance (recency, importance,
+     * emotional intensity, query similarity and access frequency).
+     * Each result carries its score breakdown.
+     */
+    public async retrieveMemories(params: MemorySearchParams): Promise<ScoredMemory[]> {
+        await this.ready();
+
+        const scored = await this.rankMemories(params);
+        await this.recordAccess(scored.map(entry => entry.memory), params);
+        return scored;
+    }
+
+    /**
+     * Score and sort the filtered candidates without recording an access
+     */
+    private async rankMemories(params: MemorySearchParams): Promise<ScoredMemory[]> {
+        const candidates = this.applyFilters(params.memories || Array.from(this.memories.values()), params);
+        const similarities = params.query
+            ? await this.computeSimilarities(params.query, candidates)
+            : undefined;
+
+        const options: RelevanceOptions = {
+            ...this.relevanceOptions,
+            weights: { ...this.relevanceOptions.weights, ...params.weights }
+        };
+
+        const scored = candidates
+            .map(memory => scoreMemory(memory, similarities?.get(memory.id), options))
+            .sort((a, b) => b.score - a.score);
+
+        return params.limit ? scored.slice(0, params.limit) : scored;
+    }
+
+    /**
+     * Retrieve the top hits for a query and expand them along linked memories
+     * using spreading activation. Activation decays per hop and with edge weight;
+     * the expanded set is capped by `spread.max_results` / `spread.max_tokens`.
+     */
+    public async recallMemories(params: MemorySearchParams): Promise<ActivatedMemory[]> {
+        await this.ready();
+
+        const spread = params.spread || {};
+        const seeds = await this.rankMemories({
+            ...params,
+            limit: spread.seed_count ?? DEFAULT_SPREADING_ACTIVATION.seed_count
+        });
+
+        const activated = spreadActivation(await this.getGraph(), seeds, spread, this.tokenizer);
+        await this.recordAccess(activated.map(entry => entry.memory), params);
+        return activated;
     }
 
     /**
      * Get a specific memory by ID
      */
     public async getMemory(id: string): Promise<Memory | undefined> {
+        await this.ready();
+
         const memory = this.memories.get(id);
         if (memory) {
-            memory.last_accessed = Date.now();
-            await this.saveMemories();
+            await this.recordAccess([memory]);
         }
         return memory;
     }
 
+    /**
+     * Whether a memory exists; unlike getMemory, this is not an access
+     */
+    public async hasMemory(id: string): Promise<boolean> {
+        await this.ready();
+        return this.memories.has(id);
+    }
+
+    /**
+     * Bump last_accessed and access_count on retrieved memories, so recall
+     * feeds the recency and frequency parts of the relevance score. All
+     * updates go out as one batch of patches. Memories passed in by the
+     * caller that this manager does not hold are skipped.
+     */
+    private async recordAccess(memories: Memory[], params: Pick<MemorySearchParams, 'record_access'> = {}): Promise<void> {
+        if (params.record_access === false) {
+            return;
+        }
+
+        const now = Date.now();
+        const writes: [string, PendingWrite][] = [];
+        for (const id of new Set(memories.map(memory => memory.id))) {
+            const stored = this.memories.get(id);
+            if (!stored) {
+                continue;
+            }
+            stored.last_accessed = now;
+            stored.access_count = (stored.access_count ?? 0) + 1;
+            writes.push([stored.id, {
+                kind: 'patch',
+                patch: { last_accessed: stored.last_accessed, access_count: stored.access_count }
+            }]);
+        }
+
+        if (writes.length > 0) {
+            await this.queueWrites(writes);
+        }
+    }
+
     /**
      * Get all memories
      */
     public async getAllMemories(): Promise<Memory[]> {
+        await this.ready();
         return Array.from(this.memories.values());
     }
 }
@@ -262,8 +1150,8 @@ export class MemoryManager extends EventEmitter {
  * // Create a storage provider (e.g., localStorage)
  * const storage = new LocalStorageProvider('agent_123');
  * 
- * // Initialize memory manager
- * const memoryManager = new MemoryManager(storage);
+ * // Initialize memory manager and wait until memories are loaded
+ * const memoryManager = await MemoryManager.create(storage);
  * 
  * // Create a memory
  * const memory = await memoryManager.createMemory({
@@ -272,5 +1160,29 @@ export class MemoryManager extends EventEmitter {
  *   emotion_score: 0.6,
  *   ...
  * });
+ *
+ * // Enable semantic search with the offline embedder
+ * const semanticManager = new MemoryManager(storage, {
+ *   embeddingProvider: new HashedNGramEmbeddingProvider()
+ * });
+ * const hits = await semanticManager.searchMemories({ query: 'stargazing', semantic: true });
+ *
+ * // Typed, weighted links and graph traversal
+ * await memoryManager.linkMemories(memory.id, otherMemory.id, { type: 'elaborates', weight: 0.7 });
+ * const path = await memoryManager.findShortestPath(memory.id, thirdMemory.id);
+ *
+ * // Recall linked memories via spreading activation
+ * const recalled = await memoryManager.recallMemories({
+ *   query: 'meteor shower',
+ *   spread: { max_hops: 2, decay: 0.5, max_tokens: 500 }
+ * });
+ *
+ * // Batch writes and flush explicitly, e.g. before shutdown
+ * const batchedManager = new MemoryManager(storage, { writeDebounceMs: 1000 });
+ * await batchedManager.flush();
+ *
+ * // Rank by recency, importance, emotion, similarity and access frequency
+ * const ranked = await memoryManager.retrieveMemories({ query: 'meteor shower', limit: 5 });
+ * ranked.forEach(({ memory, breakdown }) => console.log(memory.id, breakdown));
  * ```
  */
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * Embedding providers used for semantic memory search
+ */
+
+/**
+ * Interface for embedding providers
+ */
+export interface EmbeddingProvider {
+    embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Configuration for the hashed n-gram embedder
+ */
+export interface HashedNGramOptions {
+    dimensions?: number;
+    ngramSizes?: number[];
+    includeWords?: boolean;
+}
+
+const DEFAULT_HASHED_NGRAM_OPTIONS: Required<HashedNGramOptions> = {
+    dimensions: 256,
+    ngramSizes: [3, 4],
+    includeWords: true
+};
+
+/**
+ * Deterministic local embedder based on hashed character n-grams.
+ *
+ * Needs no network access, so it works offline and produces identical
+ * vectors across runs. Shared word stems ("stargaze" / "stargazing")
+ * end up with overlapping n-grams and therefore similar vectors.
+ */
+export class HashedNGramEmbeddingProvider implements EmbeddingProvider {
+    private readonly options: Required<HashedNGramOptions>;
+
+    constructor(options: HashedNGramOptions = {}) {
+        this.options = { ...DEFAULT_HASHED_NGRAM_OPTIONS, ...options };
+    }
+
+    public async embed(text: string): Promise<number[]> {
+        return this.embedSync(text);
+    }
+
+    /**
+     * Synchronous variant, handy for local similarity checks
+     */
+    public embedSync(text: string): number[] {
+        const vector = new Array<number>(this.options.dimensions).fill(0);
+        const words = tokenize(text);
+
+        for (const word of words) {
+            if (this.options.includeWords) {
+                this.addFeature(vector, `w:${word}`);
+            }
+
+            const padded = `^${word}$`;
+            for (const size of this.options.ngramSizes) {
+                for (let i = 0; i + size <= padded.length; i++) {
+                    this.addFeature(vector, `g:${padded.substring(i, i + size)}`);
+                }
+            }
+        }
+
+        return normalize(vector);
+    }
+
+    private addFeature(vector: number[], feature: string): void {
+        const hash = fnv1a(feature);
+        const index = hash % this.options.dimensions;
+        // Use the top bit of the hash as sign to reduce collision bias
+        const sign = (hash >>> 31) === 0 ? 1 : -1;
+        vector[index] += sign;
+    }
+}
+
+/**
+ * Split text into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 0);
+}
+
+/**
+ * Cosine similarity between two vectors, 0 when either is empty
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const embedder = new HashedNGramEmbeddingProvider();
+ *
+ * const [a, b] = await Promise.all([
+ *   embedder.embed('stargazing'),
+ *   embedder.embed('watching the Geminids meteor shower')
+ * ]);
+ *
+ * console.log(cosineSimilarity(a, b));
+ * ```
+ */
@@ -0,0 +1,179 @@
+import { Memory, MemoryLinkType } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+
+/**
+ * Configuration for resolving suggested links
+ */
+export interface LinkResolverOptions {
+    /** Matches below this confidence are kept as tags only */
+    minConfidence?: number;
+    /** Confidence assigned to tag and focus area matches */
+    tagConfidence?: number;
+    focusAreaConfidence?: number;
+}
+
+export const DEFAULT_LINK_RESOLVER_OPTIONS: Required<LinkResolverOptions> = {
+    minConfidence: 0.6,
+    tagConfidence: 0.9,
+    focusAreaConfidence: 0.7
+};
+
+export type LinkMatchMethod = 'id' | 'tag' | 'focus_area' | 'similarity';
+
+/**
+ * A suggestion matched to an existing memory
+ */
+export interface ResolvedLink {
+    suggestion: string;
+    target: string;
+    type: MemoryLinkType;
+    weight: number;
+    method: LinkMatchMethod;
+}
+
+/**
+ * Links to create and tags to keep for a set of suggestions
+ */
+export interface LinkResolution {
+    links: ResolvedLink[];
+    tags: string[];
+}
+
+/**
+ * Normalize free-text topics so "Meteor Shower" matches "meteor_shower"
+ */
+function normalizeTopic(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s\-_]+/g, '_');
+}
+
+/**
+ * Resolves free-text link suggestions (ids, glimpse ids or topics such as
+ * "meteor_shower") to existing memories, by id, tag, focus area or
+ * similarity, in that order.
+ */
+export class LinkResolver {
+    private memoryManager: MemoryManager;
+    private options: Required<LinkResolverOptions>;
+
+    constructor(memoryManager: MemoryManager, options: LinkResolverOptions = {}) {
+        this.memoryManager = memoryManager;
+        this.options = { ...DEFAULT_LINK_RESOLVER_OPTIONS, ...options };
+    }
+
+    /**
+     * Resolve suggestions into weighted links and tags. Topic suggestions
+     * are always kept as tags, so later memories can match them; only
+     * suggestions naming a memory directly are dropped once linked.
+     */
+    public async resolve(suggestions: string[], options: { exclude?: string[] } = {}): Promise<LinkResolution> {
+        const exclude = new Set(options.exclude ?? []);
+        const memories = (await this.memoryManager.getAllMemories())
+            .filter(memory => memory.status !== 'archived' && !exclude.has(memory.id));
+
+        const links = new Map<string, ResolvedLink>();
+        const tags: string[] = [];
+
+        for (const suggestion of Array.from(new Set(suggestions))) {
+            const direct = memories.find(memory => memory.id === suggestion || memory.glimpse_id === suggestion);
+            if (direct) {
+                this.addLink(links, { suggestion, target: direct.id, type: 'related', weight: 1, method: 'id' });
+                continue;
+            }
+
+            tags.push(suggestion);
+            const match = await this.matchTopic(suggestion, memories);
+            if (match && match.weight >= this.options.minConfidence) {
+                this.addLink(links, match);
+            }
+        }
+
+        return { links: Array.from(links.values()), tags };
+    }
+
+    /**
+     * Memories most relevant to some text, for the classifier to link to.
+     * Looking up candidates does not count as accessing them.
+     */
+    public async findCandidates(text: string, limit: number = 10): Promise<Memory[]> {
+        const scored = await this.memoryManager.retrieveMemories({ query: text, limit, record_access: false });
+        return scored.map(result => result.memory);
+    }
+
+    /**
+     * Best memory for a topic: shared tag, then shared focus area, then
+     * the most similar text
+     */
+    private async matchTopic(suggestion: string, memories: Memory[]): Promise<ResolvedLink | undefined> {
+        const topic = normalizeTopic(suggestion);
+        const byImportance = (a: Memory, b: Memory) => b.importance - a.importance || b.created_at - a.created_at;
+
+        const tagged = memories
+            .filter(memory => (memory.tags || []).some(tag => normalizeTopic(tag) === topic))
+            .sort(byImportance);
+        if (tagged.length > 0) {
+            return { suggestion, target: tagged[0].id, type: 'same_topic', weight: this.options.tagConfidence, method: 'tag' };
+        }
+
+        const sameFocus = memories
+            .filter(memory => normalizeTopic(memory.context.focus_area) === topic)
+            .sort(byImportance);
+        if (sameFocus.length > 0) {
+            return {
+                suggestion,
+                target: sameFocus[0].id,
+                type: 'same_topic',
+                weight: this.options.focusAreaConfidence,
+                method: 'focus_area'
+            };
+        }
+
+        if (memories.length === 0) {
+            return undefined;
+        }
+        const scored = await this.memoryManager.retrieveMemories({
+            query: suggestion.replace(/_/g, ' '),
+            memories,
+            record_access: false
+        });
+        const best = scored.reduce<typeof scored[number] | undefined>(
+            (top, result) => (!top || result.breakdown.similarity > top.breakdown.similarity ? result : top),
+            undefined
+        );
+        if (!best || best.breakdown.similarity <= 0) {
+            return undefined;
+        }
+        return {
+            suggestion,
+            target: best.memory.id,
+            type: 'related',
+            weight: best.breakdown.similarity,
+            method: 'similarity'
+        };
+    }
+
+    /**
+     * Keep the strongest link per target
+     */
+    private addLink(links: Map<string, ResolvedLink>, link: ResolvedLink): void {
+        const existing = links.get(link.target);
+        if (!existing || link.weight > existing.weight) {
+            links.set(link.target, link);
+        }
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const resolver = new LinkResolver(memoryManager, { minConfidence: 0.7 });
+ *
+ * const { links, tags } = await resolver.resolve(['astronomy', 'mem_1737241673208_mq8g7xoyv']);
+ * for (const link of links) {
+ *   await memoryManager.linkMemories(newMemory.id, link.target, { type: link.type, weight: link.weight });
+ * }
+ *
+ * // Candidates to show the classifier so it can suggest real ids
+ * const candidates = await resolver.findCandidates(userMessage, 5);
+ * ```
+ */
@@ -0,0 +1,100 @@
+import { Memory } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+import { MemoryConsolidator, MemorySimilarityFunction } from './memoryConsolidation';
+
+function memory(id: string, fields: Partial<Memory> = {}): Memory {
+    return {
+        id,
+        text: `Memory ${id}`,
+        glimpse_id: `glimpse_${id}`,
+        observation: `Observation ${id}`,
+        conversation: { agent_messages: [], user_messages: [] },
+        context: { focus_area: 'general', user_state: '', scene_details: '', interaction_type: 'general' },
+        importance: 0.5,
+        emotion_score: 0,
+        linked_memories: [],
+        created_at: Date.UTC(2024, 0, 1),
+        ...fields
+    };
+}
+
+async function createManager(memories: Memory[]): Promise<MemoryManager> {
+    return MemoryManager.create({
+        loadMemories: async () => memories,
+        saveMemories: async () => undefined
+    });
+}
+
+/**
+ * Similarity that is 1 for the listed pairs, in either order, and 0 otherwise
+ */
+function similarPairs(...pairs: [string, string][]): jest.MockedFunction<MemorySimilarityFunction> {
+    const similar = new Set(pairs.flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`]));
+    return jest.fn(async (a: Memory, b: Memory) => similar.has(`${a.id}|${b.id}`) ? 1 : 0);
+}
+
+describe('MemoryConsolidator', () => {
+    describe('findDuplicateGroups', () => {
+        it('groups memories that are all similar to each other', async () => {
+            const manager = await createManager(['a', 'b', 'c', 'd'].map(id => memory(id)));
+            const consolidator = new MemoryConsolidator(manager, {
+                similarity: similarPairs(['a', 'b'], ['a', 'c'], ['b', 'c'])
+            });
+
+            expect(await consolidator.findDuplicateGroups()).toEqual([['a', 'b', 'c']]);
+        });
+
+        it('does not merge chains transitively', async () => {
+            const manager = await createManager(['a', 'b', 'c', 'd'].map(id => memory(id)));
+            const consolidator = new MemoryConsolidator(manager, {
+                similarity: similarPairs(['a', 'b'], ['b', 'c'], ['c', 'd'])
+            });
+
+            expect(await consolidator.findDuplicateGroups()).toEqual([['a', 'b'], ['c', 'd']]);
+        });
+
+        it('compares each pair at most once', async () => {
+            const manager = await createManager(['a', 'b', 'c', 'd'].map(id => memory(id)));
+            const similarity = similarPairs(['a', 'b'], ['c', 'd']);
+
+            await new MemoryConsolidator(manager, { similarity }).findDuplicateGroups();
+
+            const pairs = similarity.mock.calls.map(([a, b]) => [a.id, b.id].sort().join('|'));
+            expect(new Set(pairs).size).toBe(pairs.length);
+        });
+
+        it('skips archived memories, reflections and pairs across focus areas', async () => {
+            const manager = await createManager([
+                memory('a'),
+                memory('b', { context: { focus_area: 'work', user_state: '', scene_details: '', interaction_type: 'general' } }),
+                memory('archived', { status: 'archived', archived_at: Date.UTC(2024, 0, 2) }),
+                memory('reflection', { metadata: { kind: 'reflection' } })
+            ]);
+            const similarity = jest.fn(async () => 1);
+
+            expect(await new MemoryConsolidator(manager, { similarity }).findDuplicateGroups()).toEqual([]);
+            expect(await new MemoryConsolidator(manager, { similarity, sameFocusAreaOnly: false }).findDuplicateGroups())
+                .toEqual([['a', 'b']]);
+        });
+
+        it('applies the threshold inclusively', async () => {
+            const manager = await createManager(['a', 'b'].map(id => memory(id)));
+            const similarity = jest.fn(async () => 0.85);
+
+            expect(await new MemoryConsolidator(manager, { similarity }).findDuplicateGroups()).toEqual([['a', 'b']]);
+            expect(await new MemoryConsolidator(manager, { similarity, threshold: 0.9 }).findDuplicateGroups()).toEqual([]);
+        });
+    });
+
+    describe('consolidate', () => {
+        it('merges each group into one memory', async () => {
+            const manager = await createManager(['a', 'b', 'c'].map(id => memory(id)));
+            const consolidator = new MemoryConsolidator(manager, { similarity: similarPairs(['a', 'b']) });
+
+            const merged = await consolidator.consolidate();
+
+            expect(merged).toHaveLength(1);
+            expect((await manager.getAllMemories()).map(m => m.id).sort()).toEqual([merged[0].id, 'c'].sort());
+        });
+    });
+});
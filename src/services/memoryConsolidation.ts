@@ -0,0 +1,142 @@
+import { Memory } from '../types/memory.types';
+import { ClassificationService } from './ClassificationService';
+import { HashedNGramEmbeddingProvider, cosineSimilarity } from './embeddingProvider';
+import { MemoryManager } from './MemoryManager';
+import { isReflection } from './reflectionService';
+
+/**
+ * Scores how similar two memories are, from 0 (unrelated) to 1 (identical)
+ */
+export type MemorySimilarityFunction = (a: Memory, b: Memory) => Promise<number>;
+
+/**
+ * Configuration for memory consolidation
+ */
+export interface ConsolidationOptions {
+    threshold?: number;
+    similarity?: MemorySimilarityFunction;
+    sameFocusAreaOnly?: boolean;
+}
+
+export const DEFAULT_CONSOLIDATION_THRESHOLD = 0.85;
+
+/**
+ * Text that identifies what an exchange was about
+ */
+function getComparisonText(memory: Memory): string {
+    return [memory.text, ...memory.conversation.user_messages].join('\n');
+}
+
+/**
+ * Local, offline similarity using hashed n-gram embeddings
+ */
+export function createLocalSimilarity(
+    embedder: HashedNGramEmbeddingProvider = new HashedNGramEmbeddingProvider()
+): MemorySimilarityFunction {
+    return async (a, b) => cosineSimilarity(
+        embedder.embedSync(getComparisonText(a)),
+        embedder.embedSync(getComparisonText(b))
+    );
+}
+
+/**
+ * LLM-backed similarity using ClassificationService.analyzeSimilarity
+ */
+export function createClassifierSimilarity(classifier: ClassificationService): MemorySimilarityFunction {
+    return (a, b) => classifier.analyzeSimilarity(getComparisonText(a), getComparisonText(b));
+}
+
+/**
+ * Finds near-duplicate memories and merges them through MemoryManager.mergeMemories
+ */
+export class MemoryConsolidator {
+    private readonly memoryManager: MemoryManager;
+    private readonly threshold: number;
+    private readonly similarity: MemorySimilarityFunction;
+    private readonly sameFocusAreaOnly: boolean;
+
+    constructor(memoryManager: MemoryManager, options: ConsolidationOptions = {}) {
+        this.memoryManager = memoryManager;
+        this.threshold = options.threshold ?? DEFAULT_CONSOLIDATION_THRESHOLD;
+        this.similarity = options.similarity ?? createLocalSimilarity();
+        this.sameFocusAreaOnly = options.sameFocusAreaOnly ?? true;
+    }
+
+    /**
+     * Group memories so that every pair within a group reaches the
+     * threshold. Each memory joins the first group it is similar to in full,
+     * so a chain where a~b and b~c but not a~c is never merged into one.
+     */
+    public async findDuplicateGroups(): Promise<string[][]> {
+        const memories = (await this.memoryManager.getAllMemories()).filter(memory =>
+            memory.status !== 'archived' && !isReflection(memory)
+        );
+
+        const groups: Memory[][] = [];
+        for (const memory of memories) {
+            let group: Memory[] | undefined;
+            for (const candidate of groups) {
+                if (await this.isSimilarToAll(memory, candidate)) {
+                    group = candidate;
+                    break;
+                }
+            }
+            if (group) {
+                group.push(memory);
+            } else {
+                groups.push([memory]);
+            }
+        }
+
+        return groups
+            .filter(group => group.length > 1)
+            .map(group => group.map(memory => memory.id));
+    }
+
+    /**
+     * Whether a memory reaches the threshold against every member of a group
+     */
+    private async isSimilarToAll(memory: Memory, group: Memory[]): Promise<boolean> {
+        for (const member of group) {
+            if (this.sameFocusAreaOnly && member.context.focus_area !== memory.context.focus_area) {
+                return false;
+            }
+            if (await this.similarity(member, memory) < this.threshold) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Merge every group of near-duplicates, returning the merged memories
+     */
+    public async consolidate(): Promise<Memory[]> {
+        const groups = await this.findDuplicateGroups();
+        const merged: Memory[] = [];
+
+        for (const group of groups) {
+            merged.push(await this.memoryManager.mergeMemories(group));
+        }
+
+        return merged;
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * // Offline consolidation with hashed n-gram similarity
+ * const consolidator = new MemoryConsolidator(memoryManager, { threshold: 0.9 });
+ * const merged = await consolidator.consolidate();
+ *
+ * // Or let the classifier judge similarity
+ * const llmConsolidator = new MemoryConsolidator(memoryManager, {
+ *   similarity: createClassifierSimilarity(classifier)
+ * });
+ *
+ * // Undo a merge
+ * await memoryManager.unmergeMemory(merged[0].id);
+ * ```
+ */
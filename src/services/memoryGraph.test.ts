@@ -0,0 +1,109 @@
+import { Memory, MemoryLink } from '../types/memory.types';
+import {
+    buildMemoryGraph,
+    findShortestPath,
+    getConnectedComponents,
+    getKHopNeighborhood,
+    getNeighbors
+} from './memoryGraph';
+
+function memory(id: string, links: MemoryLink[] = [], linked_memories: string[] = []): Memory {
+    return {
+        id,
+        text: `Memory ${id}`,
+        glimpse_id: `glimpse_${id}`,
+        observation: `Observation ${id}`,
+        conversation: { agent_messages: [], user_messages: [] },
+        context: { focus_area: 'general', user_state: '', scene_details: '', interaction_type: 'general' },
+        importance: 0.5,
+        emotion_score: 0,
+        linked_memories,
+        links,
+        created_at: Date.UTC(2024, 0, 1)
+    };
+}
+
+/**
+ * a -causes 0.9-> b -elaborates 0.8-> c -related 1-> d, plus a weak
+ * a -same_topic 0.2-> d shortcut; f -contradicts 0.5-> e is a separate component
+ */
+const graph = buildMemoryGraph([
+    memory('a', [{ target: 'b', type: 'causes', weight: 0.9 }, { target: 'd', type: 'same_topic', weight: 0.2 }], ['b']),
+    memory('b', [{ target: 'c', type: 'elaborates', weight: 0.8 }]),
+    memory('c', [], ['d']),
+    memory('d'),
+    memory('e', [], ['missing']),
+    memory('f', [{ target: 'e', type: 'contradicts', weight: 0.5 }])
+]);
+
+describe('buildMemoryGraph', () => {
+    it('turns typed links into edges and untyped links into related edges, skipping duplicates and dangling ids', () => {
+        expect(graph.edges).toEqual([
+            { from: 'a', to: 'b', weight: 0.9, type: 'causes' },
+            { from: 'a', to: 'd', weight: 0.2, type: 'same_topic' },
+            { from: 'b', to: 'c', weight: 0.8, type: 'elaborates' },
+            { from: 'f', to: 'e', weight: 0.5, type: 'contradicts' },
+            { from: 'c', to: 'd', weight: 1, type: 'related' }
+        ]);
+    });
+
+    it('indexes the edges touching each node', () => {
+        expect(graph.adjacency?.get('d')).toEqual([
+            { from: 'a', to: 'd', weight: 0.2, type: 'same_topic' },
+            { from: 'c', to: 'd', weight: 1, type: 'related' }
+        ]);
+        expect(graph.adjacency?.get('e')).toEqual([{ from: 'f', to: 'e', weight: 0.5, type: 'contradicts' }]);
+    });
+});
+
+describe('getNeighbors', () => {
+    it('follows edges both ways unless directed, filtered by type', () => {
+        expect(getNeighbors(graph, 'd')).toEqual([
+            { id: 'a', type: 'same_topic', weight: 0.2 },
+            { id: 'c', type: 'related', weight: 1 }
+        ]);
+        expect(getNeighbors(graph, 'd', { directed: true })).toEqual([]);
+        expect(getNeighbors(graph, 'a', { types: ['causes'] })).toEqual([{ id: 'b', type: 'causes', weight: 0.9 }]);
+    });
+
+    it('scans the edges of graphs built without an adjacency index', () => {
+        const bare = { nodes: graph.nodes, edges: graph.edges };
+
+        expect(getNeighbors(bare, 'd')).toEqual(getNeighbors(graph, 'd'));
+        expect(getNeighbors(bare, 'a', { directed: true })).toEqual(getNeighbors(graph, 'a', { directed: true }));
+    });
+});
+
+describe('getKHopNeighborhood', () => {
+    it('maps nodes within k hops to their hop distance', () => {
+        expect(getKHopNeighborhood(graph, 'a', 1)).toEqual(new Map([['b', 1], ['d', 1]]));
+        expect(getKHopNeighborhood(graph, 'a', 2)).toEqual(new Map([['b', 1], ['d', 1], ['c', 2]]));
+        expect(getKHopNeighborhood(graph, 'c', 5, { directed: true })).toEqual(new Map([['d', 1]]));
+    });
+});
+
+describe('findShortestPath', () => {
+    it('prefers strong multi-hop paths over a weak direct edge', () => {
+        expect(findShortestPath(graph, 'a', 'd')).toEqual(['a', 'b', 'c', 'd']);
+        expect(findShortestPath(graph, 'd', 'a')).toEqual(['d', 'c', 'b', 'a']);
+    });
+
+    it('respects type filters and direction', () => {
+        expect(findShortestPath(graph, 'a', 'd', { types: ['same_topic'] })).toEqual(['a', 'd']);
+        expect(findShortestPath(graph, 'd', 'a', { directed: true })).toBeNull();
+    });
+
+    it('returns the start node alone, or null when unreachable', () => {
+        expect(findShortestPath(graph, 'a', 'a')).toEqual(['a']);
+        expect(findShortestPath(graph, 'a', 'e')).toBeNull();
+    });
+});
+
+describe('getConnectedComponents', () => {
+    it('groups nodes connected by edges in either direction', () => {
+        expect(getConnectedComponents(graph).map(component => [...component].sort())).toEqual([
+            ['a', 'b', 'c', 'd'],
+            ['e', 'f']
+        ]);
+    });
+});
@@ -0,0 +1,212 @@
+import { Memory, MemoryGraph, MemoryGraphEdge, MemoryLinkType } from '../types/memory.types';
+
+/**
+ * A neighbor reached over a single edge
+ */
+export interface MemoryNeighbor {
+    id: string;
+    type: MemoryLinkType;
+    weight: number;
+}
+
+/**
+ * Options for neighbor lookups
+ */
+export interface NeighborOptions {
+    types?: MemoryLinkType[];
+    directed?: boolean;
+}
+
+/**
+ * Build a weighted, typed graph from memories. Typed links become edges as
+ * declared; untyped `linked_memories` entries become 'related' edges of
+ * weight 1 unless a typed edge already connects the pair. Edges are also
+ * indexed by node, so neighbor lookups do not scan the whole graph.
+ */
+export function buildMemoryGraph(memories: Memory[]): MemoryGraph {
+    const ids = new Set(memories.map(memory => memory.id));
+    const edges: MemoryGraphEdge[] = [];
+    const connected = new Set<string>();
+    const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+    for (const memory of memories) {
+        for (const link of memory.links || []) {
+            if (!ids.has(link.target)) {
+                continue;
+            }
+            edges.push({ from: memory.id, to: link.target, weight: link.weight, type: link.type });
+            connected.add(pairKey(memory.id, link.target));
+        }
+    }
+
+    for (const memory of memories) {
+        for (const linkId of memory.linked_memories) {
+            const key = pairKey(memory.id, linkId);
+            if (!ids.has(linkId) || linkId === memory.id || connected.has(key)) {
+                continue;
+            }
+            edges.push({ from: memory.id, to: linkId, weight: 1, type: 'related' });
+            connected.add(key);
+        }
+    }
+
+    const adjacency = new Map<string, MemoryGraphEdge[]>(memories.map(memory => [memory.id, []]));
+    for (const edge of edges) {
+        adjacency.get(edge.from)!.push(edge);
+        if (edge.to !== edge.from) {
+            adjacency.get(edge.to)!.push(edge);
+        }
+    }
+
+    return { nodes: memories, edges, adjacency };
+}
+
+/**
+ * Direct neighbors of a node. Edges are followed in both directions unless
+ * `directed` is set. Graphs without an adjacency index are scanned in full.
+ */
+export function getNeighbors(graph: MemoryGraph, id: string, options: NeighborOptions = {}): MemoryNeighbor[] {
+    const neighbors = new Map<string, MemoryNeighbor>();
+    const edges = graph.adjacency ? graph.adjacency.get(id) ?? [] : graph.edges;
+
+    for (const edge of edges) {
+        if (options.types && !options.types.includes(edge.type)) {
+            continue;
+        }
+
+        let neighborId: string | undefined;
+        if (edge.from === id) {
+            neighborId = edge.to;
+        } else if (edge.to === id && !options.directed) {
+            neighborId = edge.from;
+        }
+
+        if (neighborId === undefined) {
+            continue;
+        }
+
+        const existing = neighbors.get(neighborId);
+        if (!existing || existing.weight < edge.weight) {
+            neighbors.set(neighborId, { id: neighborId, type: edge.type, weight: edge.weight });
+        }
+    }
+
+    return Array.from(neighbors.values());
+}
+
+/**
+ * All nodes within `k` hops of a node, mapped to their hop distance
+ */
+export function getKHopNeighborhood(
+    graph: MemoryGraph,
+    id: string,
+    k: number,
+    options: NeighborOptions = {}
+): Map<string, number> {
+    const distances = new Map<string, number>([[id, 0]]);
+    let frontier = [id];
+
+    for (let hop = 1; hop <= k && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        for (const nodeId of frontier) {
+            for (const neighbor of getNeighbors(graph, nodeId, options)) {
+                if (!distances.has(neighbor.id)) {
+                    distances.set(neighbor.id, hop);
+                    next.push(neighbor.id);
+                }
+            }
+        }
+        frontier = next;
+    }
+
+    distances.delete(id);
+    return distances;
+}
+
+/**
+ * Strongest path between two nodes (Dijkstra with cost 1 / weight).
+ * Returns the node ids along the path, or null when unreachable.
+ */
+export function findShortestPath(
+    graph: MemoryGraph,
+    fromId: string,
+    toId: string,
+    options: NeighborOptions = {}
+): string[] | null {
+    const costs = new Map<string, number>([[fromId, 0]]);
+    const previous = new Map<string, string>();
+    const visited = new Set<string>();
+
+    while (true) {
+        let current: string | undefined;
+        let currentCost = Infinity;
+        costs.forEach((cost, nodeId) => {
+            if (!visited.has(nodeId) && cost < currentCost) {
+                current = nodeId;
+                currentCost = cost;
+            }
+        });
+
+        if (current === undefined) {
+            return null;
+        }
+        if (current === toId) {
+            break;
+        }
+        visited.add(current);
+
+        for (const neighbor of getNeighbors(graph, current, options)) {
+            const cost = currentCost + 1 / Math.max(neighbor.weight, Number.EPSILON);
+            if (cost < (costs.get(neighbor.id) ?? Infinity)) {
+                costs.set(neighbor.id, cost);
+                previous.set(neighbor.id, current);
+            }
+        }
+    }
+
+    const path = [toId];
+    while (path[0] !== fromId) {
+        path.unshift(previous.get(path[0])!);
+    }
+    return path;
+}
+
+/**
+ * Connected components of the graph, treating edges as undirected
+ */
+export function getConnectedComponents(graph: MemoryGraph): string[][] {
+    const adjacency = new Map<string, string[]>();
+    graph.nodes.forEach(node => adjacency.set(node.id, []));
+    graph.edges.forEach(edge => {
+        adjacency.get(edge.from)?.push(edge.to);
+        adjacency.get(edge.to)?.push(edge.from);
+    });
+
+    const seen = new Set<string>();
+    const components: string[][] = [];
+
+    for (const node of graph.nodes) {
+        if (seen.has(node.id)) {
+            continue;
+        }
+
+        const component: string[] = [];
+        const stack = [node.id];
+        seen.add(node.id);
+
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            component.push(id);
+            for (const neighborId of adjacency.get(id) || []) {
+                if (!seen.has(neighborId)) {
+                    seen.add(neighborId);
+                    stack.push(neighborId);
+                }
+            }
+        }
+
+        components.push(component);
+    }
+
+    return components;
+}
@@ -0,0 +1,189 @@
+import { ChatMessage, Memory } from '../types/memory.types';
+import { ClassificationService, NarrativeClassification } from './ClassificationService';
+import { MemoryManager } from './MemoryManager';
+import { LinkResolver } from './linkResolver';
+
+/**
+ * Configuration for the ingestion pipeline
+ */
+export interface IngestionOptions {
+    /** Exchanges classified below this importance are not stored */
+    importanceFloor?: number;
+    /** How many related memories to show the classifier; 0 disables */
+    candidateCount?: number;
+    /** Optional collaborator; defaults to a resolver over the same memory manager */
+    linkResolver?: LinkResolver;
+}
+
+export const DEFAULT_INGESTION_OPTIONS: Required<Omit<IngestionOptions, 'linkResolver'>> = {
+    importanceFloor: 0.3,
+    candidateCount: 10
+};
+
+/**
+ * Outcome of ingesting one exchange
+ */
+export interface IngestionResult {
+    classification: NarrativeClassification;
+    memory?: Memory;
+    skipped: boolean;
+    reason?: 'below_importance_floor';
+}
+
+/**
+ * A user turn and the agent's reply to it, as given to the pipeline
+ */
+type ExchangeInput = string | ChatMessage | ChatMessage[];
+
+/**
+ * Turns chat exchanges into stored memories: classifies each exchange,
+ * maps the classification into the memory's context, turns suggested
+ * links into weighted links and tags with a LinkResolver, and writes the
+ * created ids back onto the messages.
+ */
+export class MemoryIngestionService {
+    private memoryManager: MemoryManager;
+    private classifier: ClassificationService;
+    private linkResolver: LinkResolver;
+    private options: Required<Omit<IngestionOptions, 'linkResolver'>>;
+
+    constructor(
+        memoryManager: MemoryManager,
+        classifier: ClassificationService,
+        options: IngestionOptions = {}
+    ) {
+        this.memoryManager = memoryManager;
+        this.classifier = classifier;
+        this.linkResolver = options.linkResolver ?? new LinkResolver(memoryManager);
+        this.options = { ...DEFAULT_INGESTION_OPTIONS, ...options };
+    }
+
+    /**
+     * Ingest a single exchange. Either side may be a plain string, a
+     * message, or several consecutive messages from the same speaker.
+     */
+    public async ingestExchange(userInput: ExchangeInput, agentInput: ExchangeInput): Promise<IngestionResult> {
+        const userMessages = this.toMessages(userInput, 'user');
+        const agentMessages = this.toMessages(agentInput, 'assistant');
+        const userText = userMessages.map(message => message.content).join('\n');
+        const agentText = agentMessages.map(message => message.content).join('\n');
+
+        const candidates = this.options.candidateCount > 0
+            ? await this.linkResolver.findCandidates(`${userText}\n${agentText}`, this.options.candidateCount)
+            : [];
+        const classification = await this.classifier.classifyMemory(agentText, userText, { candidates });
+        const messages = [...userMessages, ...agentMessages];
+
+        if (classification.importance < this.options.importanceFloor) {
+            this.annotate(messages, classification);
+            return { classification, skipped: true, reason: 'below_importance_floor' };
+        }
+
+        const resolution = await this.linkResolver.resolve(classification.suggested_links);
+        const memory = await this.memoryManager.createMemory({
+            text: agentText,
+            observation: classification.observation,
+            conversation: {
+                agent_messages: agentMessages.map(message => message.content),
+                user_messages: userMessages.map(message => message.content)
+            },
+            context: {
+                focus_area: classification.focus_area,
+                user_state: classification.user_state ?? '',
+                scene_details: classification.scene_details ?? '',
+                interaction_type: classification.interaction_type
+            },
+            importance: classification.importance,
+            emotion_score: classification.emotion_score,
+            linked_memories: [],
+            tags: resolution.tags,
+            metadata: {
+                classification_source: classification.source
+            }
+        });
+
+        for (const link of resolution.links) {
+            await this.memoryManager.linkMemories(memory.id, link.target, { type: link.type, weight: link.weight });
+        }
+
+        this.annotate(messages, classification, memory.id);
+        return { classification, memory, skipped: false };
+    }
+
+    /**
+     * Ingest a transcript, grouping consecutive user turns with the agent
+     * turns that answer them. System messages and unanswered trailing user
+     * turns are ignored.
+     */
+    public async ingestTranscript(transcript: ChatMessage[]): Promise<IngestionResult[]> {
+        const results: IngestionResult[] = [];
+        let userTurns: ChatMessage[] = [];
+        let agentTurns: ChatMessage[] = [];
+
+        const flush = async () => {
+            if (userTurns.length > 0 && agentTurns.length > 0) {
+                results.push(await this.ingestExchange(userTurns, agentTurns));
+            }
+            userTurns = [];
+            agentTurns = [];
+        };
+
+        for (const message of transcript) {
+            if (message.role === 'user') {
+                if (agentTurns.length > 0) {
+                    await flush();
+                }
+                userTurns.push(message);
+            } else if (message.role === 'assistant' && userTurns.length > 0) {
+                agentTurns.push(message);
+            }
+        }
+        await flush();
+
+        return results;
+    }
+
+    private toMessages(input: ExchangeInput, role: ChatMessage['role']): ChatMessage[] {
+        if (typeof input === 'string') {
+            return [{ role, content: input, timestamp: Date.now() }];
+        }
+        return Array.isArray(input) ? input : [input];
+    }
+
+    /**
+     * Record the classification and created memory id on each message
+     */
+    private annotate(messages: ChatMessage[], classification: NarrativeClassification, memoryId?: string): void {
+        for (const message of messages) {
+            const memoryIds = message.metadata?.memoryIds ?? [];
+            message.metadata = {
+                ...message.metadata,
+                memoryIds: memoryId && !memoryIds.includes(memoryId) ? [...memoryIds, memoryId] : memoryIds,
+                emotionScore: classification.emotion_score,
+                importance: classification.importance
+            };
+        }
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const ingestion = new MemoryIngestionService(memoryManager, classifier, {
+ *   importanceFloor: 0.4
+ * });
+ *
+ * // One exchange
+ * const result = await ingestion.ingestExchange(
+ *   "I stayed up all night watching the Geminids!",
+ *   "That sounds wonderful! What was the best moment?"
+ * );
+ * if (!result.skipped) {
+ *   console.log('Stored memory', result.memory!.id);
+ * }
+ *
+ * // A whole transcript; message.metadata.memoryIds is filled in place
+ * await ingestion.ingestTranscript(chatHistory);
+ * ```
+ */
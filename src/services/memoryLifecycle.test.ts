@@ -0,0 +1,102 @@
+import { Memory } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+import { MemoryLifecycleManager } from './memoryLifecycle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 1);
+
+function memory(id: string, fields: Partial<Memory> = {}): Memory {
+    return {
+        id,
+        text: id,
+        glimpse_id: `glimpse_${id}`,
+        observation: id,
+        conversation: { agent_messages: [], user_messages: [] },
+        context: { focus_area: 'general', user_state: '', scene_details: '', interaction_type: 'general' },
+        importance: 0.5,
+        emotion_score: 0,
+        linked_memories: [],
+        created_at: NOW,
+        ...fields
+    };
+}
+
+async function createManager(memories: Memory[]): Promise<MemoryManager> {
+    return MemoryManager.create({
+        loadMemories: async () => memories,
+        saveMemories: async () => undefined
+    });
+}
+
+describe('MemoryLifecycleManager', () => {
+    describe('getEffectiveImportance', () => {
+        const lifecycle = new MemoryLifecycleManager({} as MemoryManager);
+
+        it('halves importance every half-life since the later of creation and last access', () => {
+            expect(lifecycle.getEffectiveImportance(memory('a', { importance: 0.8 }), NOW)).toBe(0.8);
+            expect(lifecycle.getEffectiveImportance(memory('a', { importance: 0.8, created_at: NOW - 30 * DAY_MS }), NOW))
+                .toBeCloseTo(0.4);
+            expect(lifecycle.getEffectiveImportance(memory('a', {
+                importance: 0.8,
+                created_at: NOW - 90 * DAY_MS,
+                last_accessed: NOW - 60 * DAY_MS
+            }), NOW)).toBeCloseTo(0.2);
+        });
+
+        it('adds a logarithmic boost per retrieval and clamps to [0, 1]', () => {
+            expect(lifecycle.getEffectiveImportance(memory('a', {
+                importance: 0.8,
+                created_at: NOW - 30 * DAY_MS,
+                access_count: 3
+            }), NOW)).toBeCloseTo(0.4 + 0.05 * Math.log(4));
+            expect(lifecycle.getEffectiveImportance(memory('a', { importance: 1, access_count: 1000 }), NOW)).toBe(1);
+        });
+
+        it('does not grow importance for timestamps in the future', () => {
+            expect(lifecycle.getEffectiveImportance(memory('a', { created_at: NOW + DAY_MS }), NOW)).toBe(0.5);
+        });
+    });
+
+    describe('runMaintenance', () => {
+        it('archives active memories below archiveThreshold and forgets archived ones below forgetThreshold', async () => {
+            const manager = await createManager([
+                memory('fading', { importance: 0.09 }),
+                memory('at-archive-threshold', { importance: 0.1 }),
+                memory('archived-fading', { importance: 0.019, status: 'archived', archived_at: NOW }),
+                memory('archived-kept', { importance: 0.05, status: 'archived', archived_at: NOW })
+            ]);
+            const lifecycle = new MemoryLifecycleManager(manager);
+
+            expect(await lifecycle.runMaintenance(NOW)).toEqual({
+                evaluated: 4,
+                archived: ['fading'],
+                forgotten: ['archived-fading']
+            });
+            const statuses = Object.fromEntries((await manager.getAllMemories()).map(m => [m.id, m.status]));
+            expect(statuses).toEqual({
+                'fading': 'archived',
+                'at-archive-threshold': undefined,
+                'archived-kept': 'archived'
+            });
+        });
+
+        it('skips memories removed while the pass is running', async () => {
+            const manager = await createManager([
+                memory('fading', { importance: 0.05 }),
+                memory('archived-fading', { importance: 0.01, status: 'archived', archived_at: NOW }),
+                memory('also-fading', { importance: 0.05 })
+            ]);
+            const archive = manager.archiveMemory.bind(manager);
+            jest.spyOn(manager, 'archiveMemory').mockImplementationOnce(async id => {
+                const archived = await archive(id);
+                await manager.deleteMemory('archived-fading');
+                return archived;
+            });
+
+            const report = await new MemoryLifecycleManager(manager).runMaintenance(NOW);
+
+            expect(report).toEqual({ evaluated: 3, archived: ['fading', 'also-fading'], forgotten: [] });
+            expect((await manager.getAllMemories()).map(m => m.id)).toEqual(['fading', 'also-fading']);
+        });
+    });
+});
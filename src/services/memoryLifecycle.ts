@@ -0,0 +1,140 @@
+import { Memory } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+
+/**
+ * Configuration for memory decay and archival
+ */
+export interface MemoryLifecycleOptions {
+    halfLifeDays?: number;
+    retrievalBoost?: number;
+    archiveThreshold?: number;
+    forgetThreshold?: number;
+    intervalMs?: number;
+}
+
+/**
+ * Result of a single maintenance pass
+ */
+export interface LifecycleReport {
+    evaluated: number;
+    archived: string[];
+    forgotten: string[];
+}
+
+export const DEFAULT_LIFECYCLE_OPTIONS: Required<MemoryLifecycleOptions> = {
+    halfLifeDays: 30,
+    retrievalBoost: 0.05,
+    archiveThreshold: 0.1,
+    forgetThreshold: 0.02,
+    intervalMs: 60 * 60 * 1000
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decays memory importance over time and moves faded memories through
+ * the active -> archived -> forgotten lifecycle.
+ *
+ * Effective importance halves every `halfLifeDays` since the memory was
+ * created or last accessed, plus a boost for every retrieval. Active
+ * memories below `archiveThreshold` are archived; archived memories below
+ * `forgetThreshold` are forgotten for good.
+ */
+export class MemoryLifecycleManager {
+    private readonly memoryManager: MemoryManager;
+    private readonly options: Required<MemoryLifecycleOptions>;
+    private timer?: ReturnType<typeof setInterval>;
+
+    constructor(memoryManager: MemoryManager, options: MemoryLifecycleOptions = {}) {
+        this.memoryManager = memoryManager;
+        this.options = { ...DEFAULT_LIFECYCLE_OPTIONS, ...options };
+    }
+
+    /**
+     * Importance of a memory after decay and retrieval boosts
+     */
+    public getEffectiveImportance(memory: Memory, now: number = Date.now()): number {
+        const reference = Math.max(memory.created_at, memory.last_accessed ?? 0);
+        const daysElapsed = Math.max(0, now - reference) / DAY_MS;
+        const decay = Math.pow(0.5, daysElapsed / this.options.halfLifeDays);
+        const boost = this.options.retrievalBoost * Math.log1p(memory.access_count ?? 0);
+
+        return Math.max(0, Math.min(1, memory.importance * decay + boost));
+    }
+
+    /**
+     * Run a single decay pass, archiving and forgetting faded memories.
+     * Memories deleted or merged away while the pass runs are skipped.
+     */
+    public async runMaintenance(now: number = Date.now()): Promise<LifecycleReport> {
+        const memories = await this.memoryManager.getAllMemories();
+        const report: LifecycleReport = {
+            evaluated: memories.length,
+            archived: [],
+            forgotten: []
+        };
+
+        for (const memory of memories) {
+            if (!(await this.memoryManager.hasMemory(memory.id))) {
+                continue;
+            }
+            const effective = this.getEffectiveImportance(memory, now);
+
+            if (memory.status === 'archived') {
+                if (effective < this.options.forgetThreshold) {
+                    await this.memoryManager.forgetMemory(memory.id);
+                    report.forgotten.push(memory.id);
+                }
+            } else if (effective < this.options.archiveThreshold) {
+                await this.memoryManager.archiveMemory(memory.id);
+                report.archived.push(memory.id);
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Run maintenance periodically
+     */
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            this.runMaintenance().catch(console.error);
+        }, this.options.intervalMs);
+    }
+
+    /**
+     * Stop periodic maintenance
+     */
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const lifecycle = new MemoryLifecycleManager(memoryManager, {
+ *   halfLifeDays: 14,
+ *   archiveThreshold: 0.15
+ * });
+ *
+ * memoryManager.on('memoryUpdate', (event) => {
+ *   if (event.type === 'archive' || event.type === 'forget') {
+ *     console.log(`${event.type}: ${event.memory.id}`);
+ *   }
+ * });
+ *
+ * lifecycle.start();
+ *
+ * // Bring an archived memory back
+ * await memoryManager.restoreMemory('mem_123');
+ * ```
+ */
@@ -0,0 +1,303 @@
+import { EventEmitter } from 'events';
+import { AgentPersonality, Memory, MemoryUpdateEvent, MoodState } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+import { PersonalityProvider } from './promptBuilder';
+import { isReflection } from './reflectionService';
+
+/**
+ * Interface for mood storage providers
+ */
+export interface MoodStorageProvider {
+    loadMood(): Promise<MoodState | null>;
+    saveMood(mood: MoodState): Promise<void>;
+}
+
+/**
+ * Example localStorage implementation of MoodStorageProvider
+ */
+export class LocalStorageMoodProvider implements MoodStorageProvider {
+    private readonly storageKey: string;
+
+    constructor(agentId: string) {
+        this.storageKey = `mindsculpt_mood_${agentId}`;
+    }
+
+    public async loadMood(): Promise<MoodState | null> {
+        const data = localStorage.getItem(this.storageKey);
+        return data ? JSON.parse(data) : null;
+    }
+
+    public async saveMood(mood: MoodState): Promise<void> {
+        localStorage.setItem(this.storageKey, JSON.stringify(mood));
+    }
+}
+
+/**
+ * Resting mood the agent returns to between interactions
+ */
+export type MoodBaseline = Pick<MoodState, 'valence' | 'arousal'>;
+
+/**
+ * Configuration for the mood manager
+ */
+export interface MoodOptions {
+    /** Time for the distance to the baseline to halve */
+    halfLifeMs?: number;
+    /** Share (0-1) of the gap to a new memory's emotion the mood moves */
+    sensitivity?: number;
+    baseline?: (personality: AgentPersonality) => MoodBaseline;
+}
+
+export type MoodLabel = 'neutral' | 'upbeat' | 'content' | 'tense' | 'subdued';
+
+export interface MoodSnapshot extends MoodState {
+    label: MoodLabel;
+    baseline: MoodBaseline;
+}
+
+/**
+ * Raised when the mood cannot be loaded from storage
+ */
+export class MoodInitializationError extends Error {
+    public readonly cause: unknown;
+
+    constructor(cause: unknown) {
+        super(`Failed to load mood: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'MoodInitializationError';
+        this.cause = cause;
+    }
+}
+
+const HIGH_AROUSAL_STATES = ['excited', 'enthusiastic', 'anxious', 'angry', 'frustrated', 'stressed', 'nervous', 'surprised', 'panicked'];
+const LOW_AROUSAL_STATES = ['calm', 'relaxed', 'tired', 'sad', 'bored', 'content', 'sleepy', 'melancholy', 'peaceful'];
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Default baseline: humor and empathy lift the resting valence, curiosity
+ * and humor the resting arousal. Missing traits count as 0.5.
+ */
+export function personalityBaseline(personality: AgentPersonality): MoodBaseline {
+    const trait = (name: string) => personality.traits[name] ?? 0.5;
+    return {
+        valence: round(clamp(0.5 * trait('humor') + 0.25 * trait('empathy') - 0.25, -1, 1)),
+        arousal: round(clamp(0.3 + 0.2 * trait('curiosity') + 0.2 * trait('humor'), 0, 1))
+    };
+}
+
+/**
+ * Name the quadrant of the valence/arousal plane a mood falls in
+ */
+export function describeMood(mood: Pick<MoodState, 'valence' | 'arousal'>): MoodLabel {
+    if (Math.abs(mood.valence) < 0.15 && Math.abs(mood.arousal - 0.5) < 0.15) {
+        return 'neutral';
+    }
+    if (mood.valence >= 0) {
+        return mood.arousal >= 0.5 ? 'upbeat' : 'content';
+    }
+    return mood.arousal >= 0.5 ? 'tense' : 'subdued';
+}
+
+export const DEFAULT_MOOD_OPTIONS: Required<MoodOptions> = {
+    halfLifeMs: 30 * 60 * 1000,
+    sensitivity: 0.3,
+    baseline: personalityBaseline
+};
+
+/**
+ * Tracks a valence/arousal mood that new memories push around and that
+ * decays back to a personality-derived baseline. Decay is computed from
+ * the time of the last update, so it also covers time spent offline.
+ */
+export class MoodManager extends EventEmitter {
+    private readonly memoryManager: MemoryManager;
+    private readonly personalityProvider: PersonalityProvider;
+    private readonly storageProvider: MoodStorageProvider;
+    private readonly options: Required<MoodOptions>;
+    private state: MoodState | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    private readonly readyPromise: Promise<void>;
+    private readonly onMemoryUpdate = (event: MemoryUpdateEvent) => this.handleMemoryUpdate(event);
+
+    constructor(
+        memoryManager: MemoryManager,
+        personalityProvider: PersonalityProvider,
+        storageProvider: MoodStorageProvider,
+        options: MoodOptions = {}
+    ) {
+        super();
+        this.memoryManager = memoryManager;
+        this.personalityProvider = personalityProvider;
+        this.storageProvider = storageProvider;
+        this.options = { ...DEFAULT_MOOD_OPTIONS, ...options };
+        this.readyPromise = this.initialize();
+        // Failures surface through ready() and the 'error' event
+        this.readyPromise.catch(() => undefined);
+    }
+
+    /**
+     * Create a mood manager and wait until the mood is loaded
+     */
+    public static async create(
+        memoryManager: MemoryManager,
+        personalityProvider: PersonalityProvider,
+        storageProvider: MoodStorageProvider,
+        options: MoodOptions = {}
+    ): Promise<MoodManager> {
+        const manager = new MoodManager(memoryManager, personalityProvider, storageProvider, options);
+        await manager.ready();
+        return manager;
+    }
+
+    /**
+     * Resolves once the mood is loaded; rejects with MoodInitializationError
+     * if loading failed
+     */
+    public ready(): Promise<void> {
+        return this.readyPromise;
+    }
+
+    private async initialize(): Promise<void> {
+        try {
+            this.state = await this.storageProvider.loadMood();
+        } catch (error) {
+            const initializationError = new MoodInitializationError(error);
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', initializationError);
+            }
+            throw initializationError;
+        }
+
+        this.emit('ready');
+    }
+
+    /**
+     * Start updating the mood as memories are created
+     */
+    public start(): void {
+        this.memoryManager.on('memoryUpdate', this.onMemoryUpdate);
+    }
+
+    /**
+     * Stop listening for new memories
+     */
+    public stop(): void {
+        this.memoryManager.off('memoryUpdate', this.onMemoryUpdate);
+    }
+
+    private handleMemoryUpdate(event: MemoryUpdateEvent): void {
+        if (event.type !== 'create' || isReflection(event.memory)) {
+            return;
+        }
+        this.processMemory(event.memory).catch(console.error);
+    }
+
+    /**
+     * Current mood, decayed towards the baseline up to `now`
+     */
+    public async getMood(now: number = Date.now()): Promise<MoodSnapshot> {
+        await this.ready();
+
+        const personality = await this.personalityProvider.getPersonality();
+        const baseline = this.options.baseline(personality);
+        const state = this.state ?? { ...baseline, timestamp: now };
+
+        const elapsed = Math.max(0, now - state.timestamp);
+        const remaining = Math.pow(0.5, elapsed / this.options.halfLifeMs);
+        const valence = round(baseline.valence + (state.valence - baseline.valence) * remaining);
+        const arousal = round(baseline.arousal + (state.arousal - baseline.arousal) * remaining);
+
+        return {
+            valence,
+            arousal,
+            timestamp: now,
+            label: describeMood({ valence, arousal }),
+            baseline
+        };
+    }
+
+    /**
+     * Move the mood towards one memory's emotion. More important memories
+     * move it further. Calls are serialized so each sees the previous update.
+     */
+    public processMemory(memory: Memory): Promise<MoodSnapshot> {
+        const result = this.queue.then(() => this.applyMemory(memory));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async applyMemory(memory: Memory): Promise<MoodSnapshot> {
+        const current = await this.getMood();
+        const weight = clamp(this.options.sensitivity, 0, 1) * (0.5 + 0.5 * clamp(memory.importance, 0, 1));
+
+        return this.setMood({
+            valence: current.valence + weight * (clamp(memory.emotion_score, -1, 1) - current.valence),
+            arousal: current.arousal + weight * (this.arousalOf(memory) - current.arousal)
+        });
+    }
+
+    /**
+     * Arousal signalled by a memory: the user's state when it names one,
+     * otherwise the strength of the emotion
+     */
+    private arousalOf(memory: Memory): number {
+        const userState = (memory.context.user_state || '').toLowerCase();
+        if (HIGH_AROUSAL_STATES.some(state => userState.includes(state))) {
+            return 0.85;
+        }
+        if (LOW_AROUSAL_STATES.some(state => userState.includes(state))) {
+            return 0.2;
+        }
+        return 0.3 + 0.6 * Math.abs(clamp(memory.emotion_score, -1, 1));
+    }
+
+    /**
+     * Return to the baseline immediately. Queued behind pending memory
+     * updates, so none of them lands on top of the reset.
+     */
+    public reset(): Promise<MoodSnapshot> {
+        const result = this.queue.then(async () => {
+            await this.ready();
+            const personality = await this.personalityProvider.getPersonality();
+            return this.setMood(this.options.baseline(personality));
+        });
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async setMood(mood: MoodBaseline): Promise<MoodSnapshot> {
+        this.state = {
+            valence: round(clamp(mood.valence, -1, 1)),
+            arousal: round(clamp(mood.arousal, 0, 1)),
+            timestamp: Date.now()
+        };
+        await this.storageProvider.saveMood(this.state);
+
+        const snapshot = await this.getMood(this.state.timestamp);
+        this.emit('moodChange', snapshot);
+        return snapshot;
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const mood = await MoodManager.create(memoryManager, personalityManager, storage, {
+ *   halfLifeMs: 15 * 60 * 1000
+ * });
+ * mood.start();
+ * mood.on('moodChange', snapshot => console.log(snapshot.label, snapshot.valence, snapshot.arousal));
+ *
+ * // Let the prompt's tone follow the mood
+ * const promptBuilder = new PromptBuilder(memoryManager, personalityManager, DEFAULT_TEMPLATE, {
+ *   moodProvider: mood
+ * });
+ * ```
+ */
@@ -0,0 +1,330 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AgentPersonality } from '../types/memory.types';
+import { DocumentValidationError, personalityMigrations, personalitySchema } from '../utils/documentSchemas';
+import { readJsonFile } from '../utils/jsonFile';
+import { schema } from '../utils/schema';
+
+/**
+ * Any subset of a personality, as written in preset files and overrides
+ */
+export interface PartialPersonality {
+    agent?: Partial<AgentPersonality['agent']>;
+    traits?: Record<string, number>;
+    values?: string[];
+    communication?: Partial<AgentPersonality['communication']>;
+}
+
+/**
+ * A named persona. With `extends`, the fields given here override the base
+ * persona: objects are merged field by field, arrays are replaced.
+ */
+export interface PersonaPreset extends PartialPersonality {
+    id: string;
+    extends?: string;
+}
+
+export interface PersonaBlendComponent {
+    persona: string | AgentPersonality;
+    weight: number;
+}
+
+/**
+ * A likely contradiction in a personality; `path` points at the field to revisit
+ */
+export interface PersonaWarning {
+    path: string;
+    message: string;
+}
+
+export type ContradictionRule = (personality: AgentPersonality) => PersonaWarning[];
+
+const presetSchema = schema.object({
+    id: schema.optional(schema.string({ nonEmpty: true })),
+    extends: schema.optional(schema.string({ nonEmpty: true })),
+    agent: schema.optional(schema.object({
+        id: schema.optional(schema.string({ nonEmpty: true })),
+        name: schema.optional(schema.string({ nonEmpty: true })),
+        description: schema.optional(schema.string()),
+        gender: schema.optional(schema.string()),
+        imageUrl: schema.optional(schema.string())
+    })),
+    traits: schema.optional(schema.record(schema.number({ min: 0, max: 1 }))),
+    values: schema.optional(schema.array(schema.string())),
+    communication: schema.optional(schema.object({
+        style: schema.optional(schema.string()),
+        tone: schema.optional(schema.string()),
+        patterns: schema.optional(schema.array(schema.string()))
+    }))
+});
+
+/**
+ * Traits that sit badly with certain words in the communication settings
+ */
+const TRAIT_STYLE_CONFLICTS: { trait: string; below?: number; above?: number; keywords: string[] }[] = [
+    { trait: 'humor', below: 0.3, keywords: ['playful', 'humorous', 'witty', 'joke', 'funny'] },
+    { trait: 'humor', above: 0.7, keywords: ['formal', 'serious', 'solemn', 'stern'] },
+    { trait: 'empathy', below: 0.3, keywords: ['warm', 'compassionate', 'supportive', 'caring', 'gentle'] },
+    { trait: 'empathy', above: 0.7, keywords: ['cold', 'blunt', 'harsh', 'dismissive'] },
+    { trait: 'curiosity', below: 0.3, keywords: ['curious', 'inquisitive', 'questions'] }
+];
+
+const OPPOSING_VALUES: [string, string][] = [
+    ['honesty', 'deception'],
+    ['tradition', 'innovation'],
+    ['caution', 'risk_taking'],
+    ['independence', 'conformity'],
+    ['brevity', 'thoroughness']
+];
+
+const OPPOSING_STYLE_TONE: [string, string][] = [
+    ['formal', 'casual'],
+    ['formal', 'playful'],
+    ['concise', 'verbose'],
+    ['calm', 'excitable']
+];
+
+function normalize(text: string): string {
+    return text.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function communicationText(personality: AgentPersonality): string {
+    const { style, tone, patterns } = personality.communication;
+    return [style, tone, ...patterns].join(' ').toLowerCase();
+}
+
+export const DEFAULT_CONTRADICTION_RULES: ContradictionRule[] = [
+    personality => {
+        const text = communicationText(personality);
+        return TRAIT_STYLE_CONFLICTS.flatMap(({ trait, below, above, keywords }) => {
+            const value = personality.traits[trait];
+            if (value === undefined || (below !== undefined && value >= below) || (above !== undefined && value <= above)) {
+                return [];
+            }
+            const keyword = keywords.find(word => text.includes(word));
+            return keyword
+                ? [{ path: `traits.${trait}`, message: `${trait} is ${value} but communication is "${keyword}"` }]
+                : [];
+        });
+    },
+    personality => {
+        const values = personality.values.map(normalize);
+        return OPPOSING_VALUES
+            .filter(([a, b]) => values.includes(a) && values.includes(b))
+            .map(([a, b]) => ({ path: 'values', message: `values include both "${a}" and "${b}"` }));
+    },
+    personality => {
+        const style = personality.communication.style.toLowerCase();
+        const tone = personality.communication.tone.toLowerCase();
+        return OPPOSING_STYLE_TONE
+            .filter(([a, b]) => (style.includes(a) && tone.includes(b)) || (style.includes(b) && tone.includes(a)))
+            .map(([a, b]) => ({ path: 'communication', message: `style and tone mix "${a}" and "${b}"` }));
+    }
+];
+
+/**
+ * Apply overrides to a personality: objects merge field by field, arrays
+ * are replaced
+ */
+export function mergePersonality(base: PartialPersonality, overrides: PartialPersonality): PartialPersonality {
+    return {
+        agent: { ...base.agent, ...overrides.agent },
+        traits: { ...base.traits, ...overrides.traits },
+        values: overrides.values ?? base.values,
+        communication: { ...base.communication, ...overrides.communication }
+    };
+}
+
+/**
+ * Mix personalities by weight. Traits are weighted averages over the
+ * personalities that define them; values and patterns are combined, most
+ * heavily weighted first; name, style and tone come from the heaviest one.
+ */
+export function blendPersonalities(components: { personality: AgentPersonality; weight: number }[]): AgentPersonality {
+    if (components.length === 0) {
+        throw new Error('At least one persona is required to blend');
+    }
+    if (components.some(component => !(component.weight >= 0))) {
+        throw new Error('Blend weights must be non-negative numbers');
+    }
+    const total = components.reduce((sum, component) => sum + component.weight, 0);
+    if (total <= 0) {
+        throw new Error('Blend weights must not all be zero');
+    }
+
+    const sorted = [...components].sort((a, b) => b.weight - a.weight);
+    const heaviest = sorted[0].personality;
+
+    const traitNames = Array.from(new Set(components.flatMap(({ personality }) => Object.keys(personality.traits))));
+    const traits: Record<string, number> = {};
+    for (const trait of traitNames) {
+        const defining = components.filter(({ personality }) => personality.traits[trait] !== undefined);
+        const weight = defining.reduce((sum, component) => sum + component.weight, 0);
+        if (weight === 0) {
+            traits[trait] = defining[0].personality.traits[trait];
+            continue;
+        }
+        const weighted = defining.reduce((sum, component) => sum + component.personality.traits[trait] * component.weight, 0);
+        traits[trait] = Math.round(weighted / weight * 10000) / 10000;
+    }
+
+    const union = (lists: string[][]) => Array.from(new Set(lists.flat()));
+
+    return {
+        schemaVersion: personalityMigrations.currentVersion,
+        agent: {
+            ...heaviest.agent,
+            id: sorted.map(({ personality }) => personality.agent.id).join('+')
+        },
+        traits: traits as AgentPersonality['traits'],
+        values: union(sorted.map(({ personality }) => personality.values)),
+        communication: {
+            style: heaviest.communication.style,
+            tone: heaviest.communication.tone,
+            patterns: union(sorted.map(({ personality }) => personality.communication.patterns))
+        }
+    };
+}
+
+/**
+ * Warnings for settings that contradict each other, e.g. low humor with a
+ * playful style. Warnings do not stop a personality from being used.
+ */
+export function checkPersonality(
+    personality: AgentPersonality,
+    rules: ContradictionRule[] = DEFAULT_CONTRADICTION_RULES
+): PersonaWarning[] {
+    return rules.flatMap(rule => rule(personality));
+}
+
+/**
+ * Named persona presets that can extend and blend each other
+ */
+export class PersonaLibrary {
+    private readonly presets: Map<string, PersonaPreset> = new Map();
+    private readonly rules: ContradictionRule[];
+
+    constructor(presets: PersonaPreset[] = [], rules: ContradictionRule[] = DEFAULT_CONTRADICTION_RULES) {
+        this.rules = rules;
+        presets.forEach(preset => this.register(preset));
+    }
+
+    /**
+     * Load every `*.json` file in a directory as a preset. A file without
+     * an `id` is named after the file, e.g. `coach.json` becomes "coach".
+     */
+    public static async fromDirectory(
+        directory: string,
+        rules: ContradictionRule[] = DEFAULT_CONTRADICTION_RULES
+    ): Promise<PersonaLibrary> {
+        const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+        const presets: PersonaPreset[] = [];
+
+        for (const file of files) {
+            const document = await readJsonFile<unknown>(path.join(directory, file));
+            const result = presetSchema.validate(document);
+            if (!result.success) {
+                throw new DocumentValidationError(`persona preset ${file}`, result.issues);
+            }
+            presets.push({ ...result.value, id: result.value.id ?? path.basename(file, '.json') });
+        }
+
+        return new PersonaLibrary(presets, rules);
+    }
+
+    /**
+     * Add or replace a preset
+     */
+    public register(preset: PersonaPreset): void {
+        this.presets.set(preset.id, preset);
+    }
+
+    public has(id: string): boolean {
+        return this.presets.has(id);
+    }
+
+    /**
+     * Ids of all presets
+     */
+    public list(): string[] {
+        return Array.from(this.presets.keys());
+    }
+
+    /**
+     * Build the full personality for a preset, following its `extends`
+     * chain. The agent id is the preset's own `agent.id`, or else the preset id.
+     */
+    public resolve(id: string): AgentPersonality {
+        const chain: PersonaPreset[] = [];
+        for (let current: string | undefined = id; current !== undefined;) {
+            const preset = this.presets.get(current);
+            if (!preset) {
+                throw new Error(chain.length === 0
+                    ? `Unknown persona: ${current}`
+                    : `Persona ${chain[chain.length - 1].id} extends unknown persona ${current}`);
+            }
+            if (chain.includes(preset)) {
+                throw new Error(`Persona ${id} has an inheritance cycle: ${[...chain, preset].map(p => p.id).join(' -> ')}`);
+            }
+            chain.push(preset);
+            current = preset.extends;
+        }
+
+        const merged = chain.reduceRight<PartialPersonality>((base, preset) => mergePersonality(base, preset), {});
+        // Agent ids are not inherited
+        merged.agent = { ...merged.agent, id: chain[0].agent?.id ?? id };
+        return this.complete(merged, `persona ${id}`);
+    }
+
+    /**
+     * Mix presets or personalities by weight, then apply overrides
+     */
+    public blend(components: PersonaBlendComponent[], overrides: PartialPersonality = {}): AgentPersonality {
+        const blended = blendPersonalities(components.map(({ persona, weight }) => ({
+            personality: typeof persona === 'string' ? this.resolve(persona) : persona,
+            weight
+        })));
+        return this.complete(mergePersonality(blended, overrides), 'blended persona');
+    }
+
+    /**
+     * Contradiction warnings for a preset or personality
+     */
+    public check(persona: string | AgentPersonality): PersonaWarning[] {
+        return checkPersonality(typeof persona === 'string' ? this.resolve(persona) : persona, this.rules);
+    }
+
+    /**
+     * Validate a merged personality, reporting missing fields against `label`
+     */
+    private complete(personality: PartialPersonality, label: string): AgentPersonality {
+        const result = personalitySchema.validate({
+            ...personality,
+            schemaVersion: personalityMigrations.currentVersion
+        });
+        if (!result.success) {
+            throw new DocumentValidationError(label, result.issues);
+        }
+        return result.value as AgentPersonality;
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const library = await PersonaLibrary.fromDirectory('data/personas');
+ *
+ * // data/personas/coach.json: { "extends": "aria_frost", "traits": { "humor": 0.4 }, ... }
+ * const coach = library.resolve('coach');
+ *
+ * const mentor = library.blend(
+ *   [{ persona: 'coach', weight: 0.7 }, { persona: 'analyst', weight: 0.3 }],
+ *   { agent: { id: 'mentor', name: 'Mentor' } }
+ * );
+ * library.check(mentor).forEach(warning => console.warn(`${warning.path}: ${warning.message}`));
+ *
+ * // Start a new agent from a preset instead of the built-in default
+ * const personalityManager = await PersonalityManager.create(storage, { library, preset: 'coach' });
+ * ```
+ */
@@ -0,0 +1,234 @@
+import { Memory, MemoryUpdateEvent } from '../types/memory.types';
+import { MemoryManager } from './MemoryManager';
+import { PersonalityManager } from './personalityManager';
+import { isReflection } from './reflectionService';
+
+/**
+ * Maps a kind of interaction to a trait nudge. A memory matches when its
+ * interaction_type contains one of `interactionTypes` (if given) and its
+ * emotion_score lies within `minEmotion`..`maxEmotion` (if given).
+ */
+export interface TraitRule {
+    name: string;
+    trait: string;
+    direction: 1 | -1;
+    interactionTypes?: string[];
+    minEmotion?: number;
+    maxEmotion?: number;
+}
+
+/**
+ * Per-trait limits. `inertia` (0-1) is the share of each nudge the trait resists.
+ */
+export interface TraitBounds {
+    min?: number;
+    max?: number;
+    inertia?: number;
+}
+
+/**
+ * Configuration for the evolution engine
+ */
+export interface PersonalityEvolutionOptions {
+    /** Largest change a single step may make to a trait */
+    maxStepDelta?: number;
+    /** Number of recent memories considered as evidence */
+    windowSize?: number;
+    /** Matching memories required in the window before a trait moves */
+    minEvidence?: number;
+    rules?: TraitRule[];
+    bounds?: Record<string, TraitBounds>;
+    defaultBounds?: TraitBounds;
+}
+
+/**
+ * A recorded trait change and the memories that caused it
+ */
+export interface TraitChange {
+    trait: string;
+    from: number;
+    to: number;
+    rule: string;
+    memoryIds: string[];
+    timestamp: number;
+}
+
+export const DEFAULT_EVOLUTION_RULES: TraitRule[] = [
+    { name: 'humorous exchanges', trait: 'humor', direction: 1, interactionTypes: ['humor', 'joke', 'playful', 'banter', 'teasing'] },
+    { name: 'painful exchanges', trait: 'humor', direction: -1, maxEmotion: -0.5 },
+    { name: 'exploratory exchanges', trait: 'curiosity', direction: 1, interactionTypes: ['question', 'learning', 'exploration', 'curiosity', 'enthusiasm'] },
+    { name: 'supportive exchanges', trait: 'empathy', direction: 1, interactionTypes: ['support', 'comfort', 'venting', 'emotional'] },
+    { name: 'user distress', trait: 'empathy', direction: 1, maxEmotion: -0.5 }
+];
+
+export const DEFAULT_EVOLUTION_OPTIONS: Required<Omit<PersonalityEvolutionOptions, 'bounds'>> = {
+    maxStepDelta: 0.02,
+    windowSize: 20,
+    minEvidence: 3,
+    rules: DEFAULT_EVOLUTION_RULES,
+    defaultBounds: { min: 0, max: 1, inertia: 0.5 }
+};
+
+/**
+ * Nudges personality traits as memories accumulate. Each new memory that
+ * matches a rule moves the rule's trait by a bounded step, once enough
+ * matching memories are among the recent ones. The step grows with the
+ * importance and emotional intensity of that evidence.
+ */
+export class PersonalityEvolutionEngine {
+    private readonly memoryManager: MemoryManager;
+    private readonly personalityManager: PersonalityManager;
+    private readonly options: Required<PersonalityEvolutionOptions>;
+    private recent: Memory[] = [];
+    private changeLog: TraitChange[] = [];
+    private queue: Promise<unknown> = Promise.resolve();
+    private readonly onMemoryUpdate = (event: MemoryUpdateEvent) => this.handleMemoryUpdate(event);
+
+    constructor(
+        memoryManager: MemoryManager,
+        personalityManager: PersonalityManager,
+        options: PersonalityEvolutionOptions = {}
+    ) {
+        this.memoryManager = memoryManager;
+        this.personalityManager = personalityManager;
+        this.options = { ...DEFAULT_EVOLUTION_OPTIONS, bounds: {}, ...options };
+    }
+
+    /**
+     * Start evolving traits as memories are created
+     */
+    public start(): void {
+        this.memoryManager.on('memoryUpdate', this.onMemoryUpdate);
+    }
+
+    /**
+     * Stop listening for new memories
+     */
+    public stop(): void {
+        this.memoryManager.off('memoryUpdate', this.onMemoryUpdate);
+    }
+
+    /**
+     * Every trait change so far, oldest first
+     */
+    public getChangeLog(): TraitChange[] {
+        return [...this.changeLog];
+    }
+
+    private handleMemoryUpdate(event: MemoryUpdateEvent): void {
+        if (event.type !== 'create' || isReflection(event.memory)) {
+            return;
+        }
+        this.processMemory(event.memory).catch(console.error);
+    }
+
+    /**
+     * Feed one memory to the engine and apply the resulting trait changes.
+     * Calls are serialized so concurrent memories see each other's effects.
+     */
+    public processMemory(memory: Memory): Promise<TraitChange[]> {
+        const result = this.queue.then(() => this.applyMemory(memory));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async applyMemory(memory: Memory): Promise<TraitChange[]> {
+        this.recent = [...this.recent, memory].slice(-this.options.windowSize);
+        const changes: TraitChange[] = [];
+
+        for (const rule of this.options.rules) {
+            if (!this.matches(rule, memory)) {
+                continue;
+            }
+
+            const evidence = this.recent.filter(candidate => this.matches(rule, candidate));
+            if (evidence.length < this.options.minEvidence) {
+                continue;
+            }
+
+            const change = await this.nudge(rule, evidence);
+            if (change) {
+                changes.push(change);
+            }
+        }
+
+        this.changeLog.push(...changes);
+        return changes;
+    }
+
+    private matches(rule: TraitRule, memory: Memory): boolean {
+        if (rule.interactionTypes) {
+            const interactionType = (memory.context.interaction_type || '').toLowerCase();
+            if (!rule.interactionTypes.some(type => interactionType.includes(type))) {
+                return false;
+            }
+        }
+        if (rule.minEmotion !== undefined && memory.emotion_score < rule.minEmotion) {
+            return false;
+        }
+        if (rule.maxEmotion !== undefined && memory.emotion_score > rule.maxEmotion) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Move a trait one bounded step in the rule's direction
+     */
+    private async nudge(rule: TraitRule, evidence: Memory[]): Promise<TraitChange | undefined> {
+        const personality = await this.personalityManager.getPersonality();
+        const from = personality.traits[rule.trait];
+        if (from === undefined) {
+            return undefined;
+        }
+
+        const bounds = { ...this.options.defaultBounds, ...this.options.bounds[rule.trait] };
+        const min = Math.max(0, bounds.min ?? 0);
+        const max = Math.min(1, bounds.max ?? 1);
+        const inertia = Math.max(0, Math.min(1, bounds.inertia ?? 0));
+
+        const strength = evidence.reduce(
+            (sum, memory) => sum + memory.importance * (0.5 + 0.5 * Math.abs(memory.emotion_score)),
+            0
+        ) / evidence.length;
+        const delta = rule.direction * this.options.maxStepDelta * strength * (1 - inertia);
+        const to = Math.round(Math.max(min, Math.min(max, from + delta)) * 10000) / 10000;
+
+        // Nothing to do at the bound, and never pull a trait that starts
+        // outside its bounds against the rule's direction
+        if ((to - from) * rule.direction <= 0) {
+            return undefined;
+        }
+
+        const memoryIds = evidence.map(memory => memory.id);
+        await this.personalityManager.updateTrait(rule.trait, to, {
+            author: 'evolution',
+            reason: `${rule.name} (memories: ${memoryIds.join(', ')})`
+        });
+        return {
+            trait: rule.trait,
+            from,
+            to,
+            rule: rule.name,
+            memoryIds,
+            timestamp: Date.now()
+        };
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const evolution = new PersonalityEvolutionEngine(memoryManager, personalityManager, {
+ *   maxStepDelta: 0.01,
+ *   bounds: { humor: { min: 0.2, max: 0.8, inertia: 0.7 } }
+ * });
+ * evolution.start();
+ *
+ * // ...after some playful conversations
+ * for (const change of evolution.getChangeLog()) {
+ *   console.log(`${change.trait}: ${change.from} -> ${change.to} (${change.rule})`, change.memoryIds);
+ * }
+ * ```
+ */
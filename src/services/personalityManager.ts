@@ -1,11 +1,18 @@
-import { AgentPersonality } from '../types/memory.types';
+import { EventEmitter } from 'events';
+import { AgentPersonality, PersonalityVersion } from '../types/memory.types';
+import { loadPersonalityDocument, personalityMigrations, validatePersonality } from '../utils/documentSchemas';
+import { PersonaLibrary } from './personaLibrary';
 
 /**
- * Interface for personality storage providers
+ * Interface for personality storage providers. Providers implementing the
+ * optional history methods persist every version; otherwise history is
+ * kept in memory only.
  */
 export interface PersonalityStorageProvider {
     loadPersonality(): Promise<AgentPersonality | null>;
     savePersonality(personality: AgentPersonality): Promise<void>;
+    loadPersonalityHistory?(): Promise<PersonalityVersion[]>;
+    appendPersonalityVersion?(version: PersonalityVersion): Promise<void>;
 }
 
 /**
@@ -26,12 +33,23 @@ export class LocalStoragePersonalityProvider implements PersonalityStorageProvid
     public async savePersonality(personality: AgentPersonality): Promise<void> {
         localStorage.setItem(this.storageKey, JSON.stringify(personality));
     }
+
+    public async loadPersonalityHistory(): Promise<PersonalityVersion[]> {
+        const data = localStorage.getItem(`${this.storageKey}_history`);
+        return data ? JSON.parse(data) : [];
+    }
+
+    public async appendPersonalityVersion(version: PersonalityVersion): Promise<void> {
+        const history = await this.loadPersonalityHistory();
+        localStorage.setItem(`${this.storageKey}_history`, JSON.stringify([...history, version]));
+    }
 }
 
 /**
  * Default Aria Frost personality configuration
  */
 export const ARIA_FROST_PERSONALITY: AgentPersonality = {
+    schemaVersion: personalityMigrations.currentVersion,
     agent: {
         id: 'default_agent',
         name: 'Aria Frost',
@@ -59,13 +77,117 @@ export const ARIA_FROST_PERSONALITY: AgentPersonality = {
     }
 };
 
-export class PersonalityManager {
+/**
+ * Where a new agent's personality comes from when storage has none
+ */
+export interface PersonalityManagerOptions {
+    library?: PersonaLibrary;
+    /** Preset id to start from instead of ARIA_FROST_PERSONALITY; requires `library` */
+    preset?: string;
+}
+
+/**
+ * Who made a personality change and why, recorded with the version
+ */
+export interface PersonalityChange {
+    author?: string;
+    reason?: string;
+}
+
+export interface TraitDiff {
+    trait: string;
+    from?: number;
+    to?: number;
+    delta: number;
+}
+
+export interface FieldDiff {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * Differences between two personality versions
+ */
+export interface PersonalityDiff {
+    from: number;
+    to: number;
+    traits: TraitDiff[];
+    values: {
+        added: string[];
+        removed: string[];
+    };
+    communication: FieldDiff[];
+    agent: FieldDiff[];
+}
+
+const DEFAULT_AUTHOR = 'system';
+
+function clonePersonality(personality: AgentPersonality): AgentPersonality {
+    return JSON.parse(JSON.stringify(personality));
+}
+
+/**
+ * Fields of two objects whose values differ
+ */
+function diffFields(from: object, to: object): FieldDiff[] {
+    const before = from as Record<string, unknown>;
+    const after = to as Record<string, unknown>;
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return fields
+        .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+/**
+ * Raised when the personality cannot be loaded from storage
+ */
+export class PersonalityInitializationError extends Error {
+    public readonly cause: unknown;
+
+    constructor(cause: unknown) {
+        super(`Failed to load personality: ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'PersonalityInitializationError';
+        this.cause = cause;
+    }
+}
+
+export class PersonalityManager extends EventEmitter {
     private personality: AgentPersonality | null = null;
+    private history: PersonalityVersion[] = [];
     private storageProvider: PersonalityStorageProvider;
+    private readonly options: PersonalityManagerOptions;
+    private readonly readyPromise: Promise<void>;
+    private queue: Promise<unknown> = Promise.resolve();
 
-    constructor(storageProvider: PersonalityStorageProvider) {
+    constructor(storageProvider: PersonalityStorageProvider, options: PersonalityManagerOptions = {}) {
+        super();
         this.storageProvider = storageProvider;
-        this.initialize().catch(console.error);
+        this.options = options;
+        this.readyPromise = this.initialize();
+        // Failures surface through ready() and the 'error' event
+        this.readyPromise.catch(() => undefined);
+    }
+
+    /**
+     * Create a personality manager and wait until the personality is loaded
+     */
+    public static async create(
+        storageProvider: PersonalityStorageProvider,
+        options: PersonalityManagerOptions = {}
+    ): Promise<PersonalityManager> {
+        const manager = new PersonalityManager(storageProvider, options);
+        await manager.ready();
+        return manager;
+    }
+
+    /**
+     * Resolves once the personality is loaded; rejects with
+     * PersonalityInitializationError if loading failed. Every operation waits on this.
+     */
+    public ready(): Promise<void> {
+        return this.readyPromise;
     }
 
     /**
@@ -74,12 +196,47 @@ export class PersonalityManager {
     private async initialize(): Promise<void> {
         try {
             const stored = await this.storageProvider.loadPersonality();
-            this.personality = stored ?? ARIA_FROST_PERSONALITY;
+            this.personality = stored
+                ? loadPersonalityDocument(stored)
+                : this.initialPersonality();
             await this.savePersonality();
+
+            const history = this.storageProvider.loadPersonalityHistory
+                ? await this.storageProvider.loadPersonalityHistory()
+                : [];
+            this.history = history.map(version => ({
+                ...version,
+                personality: loadPersonalityDocument(version.personality)
+            }));
+            if (this.history.length === 0) {
+                await this.recordVersion({
+                    reason: stored
+                        ? 'Existing personality'
+                        : this.options.preset ? `Initial personality from preset ${this.options.preset}` : 'Initial personality'
+                });
+            }
         } catch (error) {
-            console.error('Error initializing PersonalityManager:', error);
-            this.personality = ARIA_FROST_PERSONALITY;
+            const initializationError = new PersonalityInitializationError(error);
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', initializationError);
+            }
+            throw initializationError;
         }
+
+        this.emit('ready');
+    }
+
+    /**
+     * Personality for a new agent: the configured preset, or the default
+     */
+    private initialPersonality(): AgentPersonality {
+        if (!this.options.preset) {
+            return clonePersonality(ARIA_FROST_PERSONALITY);
+        }
+        if (!this.options.library) {
+            throw new Error(`A persona library is required to start from preset ${this.options.preset}`);
+        }
+        return this.options.library.resolve(this.options.preset);
     }
 
     /**
@@ -87,97 +244,221 @@ export class PersonalityManager {
      */
     private async savePersonality(): Promise<void> {
         if (this.personality) {
-            await this.storageProvider.savePersonality(this.personality);
+            await this.storageProvider.savePersonality(validatePersonality(this.personality));
+        }
+    }
+
+    /**
+     * Snapshot the current personality as a new version; it joins the
+     * history only once the storage provider has appended it
+     */
+    private async recordVersion(change: PersonalityChange): Promise<PersonalityVersion> {
+        const last = this.history[this.history.length - 1];
+        const version: PersonalityVersion = {
+            version: last ? last.version + 1 : 1,
+            timestamp: Date.now(),
+            author: change.author ?? DEFAULT_AUTHOR,
+            reason: change.reason ?? '',
+            personality: clonePersonality(this.personality!)
+        };
+
+        if (this.storageProvider.appendPersonalityVersion) {
+            await this.storageProvider.appendPersonalityVersion(version);
         }
+        this.history.push(version);
+        return version;
+    }
+
+    /**
+     * Build a new personality from the current one, validate and apply it,
+     * then persist it and record it as a version. Commits run one at a time,
+     * so each builds on the result of the one before. Invalid personalities
+     * throw DocumentValidationError and leave the current one untouched, as
+     * does a failed save; returning undefined from `build` skips the change.
+     */
+    private commit(
+        build: (current: AgentPersonality) => AgentPersonality | undefined,
+        change: PersonalityChange,
+        defaultReason: string
+    ): Promise<AgentPersonality> {
+        const result = this.queue.then(async () => {
+            const next = build(this.personality!);
+            if (next) {
+                const previous = this.personality;
+                this.personality = validatePersonality(next);
+                try {
+                    await this.savePersonality();
+                } catch (error) {
+                    this.personality = previous;
+                    throw error;
+                }
+                await this.recordVersion({ ...change, reason: change.reason ?? defaultReason });
+            }
+            return this.personality!;
+        });
+        this.queue = result.catch(() => undefined);
+        return result;
     }
 
     /**
      * Get current personality configuration
      */
     public async getPersonality(): Promise<AgentPersonality> {
-        if (!this.personality) {
-            await this.initialize();
-        }
+        await this.ready();
         return this.personality!;
     }
 
     /**
      * Update personality configuration
      */
-    public async updatePersonality(updates: Partial<AgentPersonality>): Promise<AgentPersonality> {
-        if (!this.personality) {
-            await this.initialize();
-        }
+    public async updatePersonality(
+        updates: Partial<AgentPersonality>,
+        change: PersonalityChange = {}
+    ): Promise<AgentPersonality> {
+        await this.ready();
 
-        this.personality = {
-            ...this.personality!,
+        return this.commit(current => ({
+            ...current,
             ...updates,
+            schemaVersion: personalityMigrations.currentVersion,
             agent: {
-                ...this.personality!.agent,
+                ...current.agent,
                 ...updates.agent,
-                id: this.personality!.agent.id // Ensure ID cannot be changed
+                id: current.agent.id // Ensure ID cannot be changed
             }
-        };
-
-        await this.savePersonality();
-        return this.personality;
+        }), change, `Updated ${Object.keys(updates).join(', ')}`);
     }
 
     /**
      * Update a specific personality trait
      */
-    public async updateTrait(traitName: string, value: number): Promise<void> {
-        if (!this.personality) {
-            await this.initialize();
-        }
+    public async updateTrait(traitName: string, value: number, change: PersonalityChange = {}): Promise<void> {
+        await this.ready();
 
         if (value < 0 || value > 1) {
             throw new Error('Trait value must be between 0 and 1');
         }
 
-        this.personality!.traits[traitName] = value;
-        await this.savePersonality();
+        await this.commit(current => ({
+            ...current,
+            traits: { ...current.traits, [traitName]: value }
+        }), change, `Set ${traitName} to ${value}`);
     }
 
     /**
      * Add a value to personality's value system
      */
-    public async addValue(value: string): Promise<void> {
-        if (!this.personality) {
-            await this.initialize();
-        }
+    public async addValue(value: string, change: PersonalityChange = {}): Promise<void> {
+        await this.ready();
 
-        if (!this.personality!.values.includes(value)) {
-            this.personality!.values.push(value);
-            await this.savePersonality();
-        }
+        await this.commit(current => current.values.includes(value) ? undefined : {
+            ...current,
+            values: [...current.values, value]
+        }, change, `Added value ${value}`);
     }
 
     /**
      * Remove a value from personality's value system
      */
-    public async removeValue(value: string): Promise<void> {
-        if (!this.personality) {
-            await this.initialize();
-        }
+    public async removeValue(value: string, change: PersonalityChange = {}): Promise<void> {
+        await this.ready();
 
-        this.personality!.values = this.personality!.values.filter(v => v !== value);
-        await this.savePersonality();
+        await this.commit(current => current.values.includes(value) ? {
+            ...current,
+            values: current.values.filter(v => v !== value)
+        } : undefined, change, `Removed value ${value}`);
     }
 
     /**
      * Update communication style configuration
      */
-    public async updateCommunicationStyle(style: Partial<AgentPersonality['communication']>): Promise<void> {
-        if (!this.personality) {
-            await this.initialize();
+    public async updateCommunicationStyle(
+        style: Partial<AgentPersonality['communication']>,
+        change: PersonalityChange = {}
+    ): Promise<void> {
+        await this.ready();
+
+        await this.commit(current => ({
+            ...current,
+            communication: {
+                ...current.communication,
+                ...style
+            }
+        }), change, `Updated communication ${Object.keys(style).join(', ')}`);
+    }
+
+    /**
+     * All recorded versions, oldest first
+     */
+    public async listVersions(): Promise<PersonalityVersion[]> {
+        await this.ready();
+        return this.history.map(version => ({ ...version, personality: clonePersonality(version.personality) }));
+    }
+
+    /**
+     * A single version, or undefined if it does not exist
+     */
+    public async getVersion(version: number): Promise<PersonalityVersion | undefined> {
+        await this.ready();
+        const found = this.history.find(entry => entry.version === version);
+        return found && { ...found, personality: clonePersonality(found.personality) };
+    }
+
+    private requireVersion(version: number): PersonalityVersion {
+        const found = this.history.find(entry => entry.version === version);
+        if (!found) {
+            throw new Error(`Personality version ${version} not found`);
         }
+        return found;
+    }
 
-        this.personality!.communication = {
-            ...this.personality!.communication,
-            ...style
+    /**
+     * Compare two versions trait by trait, plus values, communication and agent details
+     */
+    public async diffVersions(fromVersion: number, toVersion: number): Promise<PersonalityDiff> {
+        await this.ready();
+
+        const from = this.requireVersion(fromVersion).personality;
+        const to = this.requireVersion(toVersion).personality;
+
+        const traitNames = Array.from(new Set([...Object.keys(from.traits), ...Object.keys(to.traits)]));
+        const traits = traitNames
+            .filter(trait => from.traits[trait] !== to.traits[trait])
+            .map(trait => ({
+                trait,
+                from: from.traits[trait],
+                to: to.traits[trait],
+                delta: Math.round(((to.traits[trait] ?? 0) - (from.traits[trait] ?? 0)) * 10000) / 10000
+            }));
+
+        return {
+            from: fromVersion,
+            to: toVersion,
+            traits,
+            values: {
+                added: to.values.filter(value => !from.values.includes(value)),
+                removed: from.values.filter(value => !to.values.includes(value))
+            },
+            communication: diffFields(from.communication, to.communication),
+            agent: diffFields(from.agent, to.agent)
         };
-        await this.savePersonality();
+    }
+
+    /**
+     * Restore an earlier version. The rollback is itself recorded as a new
+     * version, so it can be undone too.
+     */
+    public async rollback(version: number, change: PersonalityChange = {}): Promise<AgentPersonality> {
+        await this.ready();
+
+        const target = this.requireVersion(version);
+        return this.commit(current => ({
+            ...clonePersonality(target.personality),
+            agent: {
+                ...target.personality.agent,
+                id: current.agent.id
+            }
+        }), change, `Rolled back to version ${version}`);
     }
 }
 
@@ -188,13 +469,23 @@ export class PersonalityManager {
  * // Create a storage provider
  * const storage = new LocalStoragePersonalityProvider('agent_123');
  * 
- * // Initialize personality manager
- * const personalityManager = new PersonalityManager(storage);
+ * // Initialize personality manager and wait until it is loaded
+ * const personalityManager = await PersonalityManager.create(storage);
+ *
+ * // Or start a new agent from a persona preset
+ * const library = await PersonaLibrary.fromDirectory('data/personas');
+ * const coachManager = await PersonalityManager.create(storage, { library, preset: 'coach' });
  * 
  * // Get current personality
  * const personality = await personalityManager.getPersonality();
  * 
- * // Update traits
- * await personalityManager.updateTrait('empathy', 0.9);
+ * // Update traits, recording who changed them and why
+ * await personalityManager.updateTrait('empathy', 0.9, { author: 'admin', reason: 'More supportive tone' });
+ *
+ * // Inspect and undo changes
+ * const versions = await personalityManager.listVersions();
+ * const diff = await personalityManager.diffVersions(1, versions[versions.length - 1].version);
+ * console.log(diff.traits); // [{ trait: 'empathy', from: 0.8, to: 0.9, delta: 0.1 }]
+ * await personalityManager.rollback(1, { author: 'admin', reason: 'Revert experiment' });
  * ```
  */
\ No newline at end of file
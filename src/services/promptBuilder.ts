@@ -1,10 +1,26 @@
-import { Memory, AgentPersonality, PromptTemplate, MemorySearchParams } from '../types/memory.types';
+import {
+    Memory,
+    AgentPersonality,
+    PromptTemplate,
+    MemorySearchParams,
+    ScoredMemory,
+    ActivatedMemory,
+    ChatMessage,
+    MoodState
+} from '../types/memory.types';
+import { LLMMessage } from '../config/llm.config';
+import { Tokenizer, defaultTokenizer, truncateToTokens } from './tokenizer';
+import { TemplateVariables, renderTemplate, templateUsesVariable, validateTemplate } from './templateEngine';
+import { loadMemoryDocument } from '../utils/documentSchemas';
+import { describeMood } from './moodManager';
 
 /**
  * Interface for memory retrieval
  */
 export interface MemoryProvider {
     searchMemories(params: MemorySearchParams): Promise<Memory[]>;
+    retrieveMemories?(params: MemorySearchParams): Promise<ScoredMemory[]>;
+    recallMemories?(params: MemorySearchParams): Promise<ActivatedMemory[]>;
 }
 
 /**
@@ -14,6 +30,117 @@ export interface PersonalityProvider {
     getPersonality(): Promise<AgentPersonality>;
 }
 
+/**
+ * Interface for the agent's current mood
+ */
+export interface MoodProvider {
+    getMood(): Promise<MoodState>;
+}
+
+/**
+ * Optional collaborators for the prompt builder
+ */
+export interface PromptBuilderOptions {
+    tokenizer?: Tokenizer;
+    /** Adds the current mood to the personality section and template variables */
+    moodProvider?: MoodProvider;
+    /** Extra template variables, e.g. `{ user_name: 'Sam' }` */
+    variables?: TemplateVariables;
+}
+
+/**
+ * Token limits for budgeted prompt assembly
+ */
+export interface PromptBudget {
+    /** The model's context window in tokens */
+    contextWindow: number;
+    /** Tokens kept free for the model's reply */
+    reservedForResponse?: number;
+    /** Memories longer than this are truncated before assembly */
+    maxMemoryTokens?: number;
+}
+
+/**
+ * What budgeted assembly kept and cut
+ */
+export interface PromptBudgetReport {
+    contextWindow: number;
+    /** Tokens available for the prompt after the response reserve */
+    budget: number;
+    totalTokens: number;
+    fits: boolean;
+    includedMemoryIds: string[];
+    droppedMemoryIds: string[];
+    truncatedMemoryIds: string[];
+    /** Number of history entries dropped, oldest first */
+    droppedHistory: number;
+}
+
+export interface BudgetedPrompt<T = string[]> {
+    prompt: T;
+    report: PromptBudgetReport;
+}
+
+/**
+ * Everything a prompt is rendered from
+ */
+interface PromptInputs {
+    memories: Memory[];
+    personality: AgentPersonality;
+    mood?: MoodState;
+}
+
+export const DEFAULT_RESPONSE_RESERVE = 1024;
+
+/**
+ * Approximate per-message framing cost of chat APIs
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Memories are truncated rather than dropped only if this much would remain
+ */
+const MIN_TRUNCATED_MEMORY_TOKENS = 16;
+
+/**
+ * Variables available to every template section
+ */
+export const PROMPT_VARIABLES = [
+    'personality',
+    'context',
+    'agent_name',
+    'agent_description',
+    'traits',
+    'trait_list',
+    'values',
+    'communication',
+    'memories',
+    'memory_count',
+    'mood',
+    'mood_valence',
+    'mood_arousal',
+    'date',
+    'user_name'
+];
+
+/**
+ * Variables available to the `memory_item` template
+ */
+export const MEMORY_ITEM_VARIABLES = [
+    'id',
+    'glimpse_id',
+    'text',
+    'observation',
+    'date',
+    'importance',
+    'emotion_score',
+    'focus_area',
+    'tags'
+];
+
+export const DEFAULT_MEMORY_ITEM_TEMPLATE =
+    '- {{date}}: {{text}} (Importance: {{importance}}, Emotional: {{emotion_score}})';
+
 /**
  * Default prompt template
  */
@@ -24,45 +151,98 @@ export const DEFAULT_TEMPLATE: PromptTemplate = {
     3. If memories contain ANY greeting, respond without new greeting
     
     Your Personality:
-    {personality}
+    {{personality}}
     
     Current Context: 
-    {context}`,
+    {{context}}`,
 
-    context: "CONVERSATION HISTORY:\n{context}",
+    context: "CONVERSATION HISTORY:\n{{context}}",
     memory_prefix: "\nRELEVANT MEMORIES:\n",
     memory_suffix: "\nEND MEMORIES\n",
     personality_prefix: "\nPERSONALITY TRAITS:\n",
-    personality_suffix: ""
+    personality_suffix: "",
+    memory_item: DEFAULT_MEMORY_ITEM_TEMPLATE
 };
 
 export class PromptBuilder {
-    private readonly template: PromptTemplate;
+    private template: PromptTemplate;
     private readonly memoryProvider: MemoryProvider;
     private readonly personalityProvider: PersonalityProvider;
+    private readonly tokenizer: Tokenizer;
+    private readonly moodProvider?: MoodProvider;
+    private variables: TemplateVariables;
 
     constructor(
         memoryProvider: MemoryProvider,
         personalityProvider: PersonalityProvider,
-        template: PromptTemplate = DEFAULT_TEMPLATE
+        template: PromptTemplate = DEFAULT_TEMPLATE,
+        options: PromptBuilderOptions = {}
     ) {
         this.memoryProvider = memoryProvider;
         this.personalityProvider = personalityProvider;
         this.template = template;
+        this.tokenizer = options.tokenizer ?? defaultTokenizer;
+        this.moodProvider = options.moodProvider;
+        this.variables = { user_name: 'the user', ...options.variables };
+    }
+
+    /**
+     * Variables describing one memory
+     */
+    private getMemoryVariables(memory: Memory): TemplateVariables {
+        return {
+            id: memory.id,
+            glimpse_id: memory.glimpse_id,
+            text: memory.text,
+            observation: memory.observation,
+            date: new Date(memory.created_at).toLocaleDateString(),
+            importance: memory.importance,
+            emotion_score: memory.emotion_score,
+            focus_area: memory.context?.focus_area,
+            tags: memory.tags ?? []
+        };
     }
 
     /**
      * Format a memory for inclusion in prompts
      */
     private formatMemory(memory: Memory): string {
-        const date = new Date(memory.created_at).toLocaleDateString();
-        return `- ${date}: ${memory.text} (Importance: ${memory.importance}, Emotional: ${memory.emotion_score})`;
+        return renderTemplate(this.template.memory_item ?? DEFAULT_MEMORY_ITEM_TEMPLATE, this.getMemoryVariables(memory));
+    }
+
+    /**
+     * Variables for the template sections
+     */
+    private getVariables(
+        personality: AgentPersonality,
+        context: string,
+        memories: Memory[],
+        mood?: MoodState
+    ): TemplateVariables {
+        const traits = personality.traits ?? {};
+        return {
+            ...this.variables,
+            personality: this.formatPersonality(personality, mood),
+            context,
+            agent_name: personality.agent?.name ?? '',
+            agent_description: personality.agent?.description ?? '',
+            traits,
+            trait_list: Object.entries(traits).map(([name, value]) => ({ name, value })),
+            values: personality.values ?? [],
+            communication: personality.communication,
+            memories: memories.map(memory => this.getMemoryVariables(memory)),
+            memory_count: memories.length,
+            mood: mood ? describeMood(mood) : '',
+            mood_valence: mood?.valence,
+            mood_arousal: mood?.arousal,
+            date: new Date().toLocaleDateString()
+        };
     }
 
     /**
      * Format personality details for prompts
      */
-    private formatPersonality(personality: AgentPersonality): string {
+    private formatPersonality(personality: AgentPersonality, mood?: MoodState): string {
         const name = personality.agent?.name || 'undefined';
         const description = personality.agent?.description || 'undefined';
         const traits = personality.traits
@@ -79,54 +259,109 @@ export class PromptBuilder {
     - Patterns: ${personality.communication.patterns.join(', ') || 'undefined'}`
             : '- Style: undefined\n- Tone: undefined\n- Patterns: undefined';
 
-        return `Name: ${name}
+        const formatted = `Name: ${name}
     Description: ${description}
     Traits:
     ${traits}
     Values: ${values}
     Communication:
     ${communication}`;
+
+        return mood
+            ? `${formatted}
+    Current mood: ${describeMood(mood)} (valence ${mood.valence.toFixed(2)}, arousal ${mood.arousal.toFixed(2)}); let it color your tone`
+            : formatted;
     }
 
     /**
-     * Build a complete prompt incorporating memory and personality
+     * Get the top-k memories by composite relevance when the provider supports it,
+     * expanded along linked memories when `spread` is set, falling back to a
+     * plain search otherwise
      */
-    public async buildPrompt(
+    private async getRelevantMemories(userMessage: string, memoryParams: MemorySearchParams): Promise<Memory[]> {
+        if (memoryParams.spread && this.memoryProvider.recallMemories) {
+            const recalled = await this.memoryProvider.recallMemories({
+                query: userMessage,
+                ...memoryParams
+            });
+            return recalled.map(entry => entry.memory);
+        }
+
+        if (!this.memoryProvider.retrieveMemories) {
+            return this.memoryProvider.searchMemories(memoryParams);
+        }
+
+        const scored = await this.memoryProvider.retrieveMemories({
+            query: userMessage,
+            ...memoryParams
+        });
+        return scored.map(entry => entry.memory);
+    }
+
+    /**
+     * Fetch the memories, personality and mood a prompt is built from
+     */
+    private async loadPromptInputs(
         userMessage: string,
-        context: string = '',
-        memoryParams: MemorySearchParams = { limit: 5, importance_threshold: 0.5 }
-    ): Promise<string[]> {
-        // Get relevant memories and personality
-        const [relevantMemories, personality] = await Promise.all([
-            this.memoryProvider.searchMemories(memoryParams),
+        memoryParams: MemorySearchParams
+    ): Promise<PromptInputs> {
+        const [memories, personality, mood] = await Promise.all([
+            this.getRelevantMemories(userMessage, memoryParams),
             memoryParams.personality
                 ? Promise.resolve(memoryParams.personality)
-                : this.personalityProvider.getPersonality()
+                : this.personalityProvider.getPersonality(),
+            this.moodProvider?.getMood()
         ]);
+        return { memories, personality, mood };
+    }
 
-        // Format the system message
-        const systemMessage = this.template.system
-            .replace('{personality}', this.formatPersonality(personality))
-            .replace('{context}', context);
-
-        // Format memories
-        const memoriesText = relevantMemories.length > 0
-            ? this.template.memory_prefix + '\n' +
-            relevantMemories.map(m => this.formatMemory(m)).join('\n') +
-            this.template.memory_suffix
+    /**
+     * Relevant memories block, empty when there are none or the system
+     * message already lists them
+     */
+    private formatMemoriesSection(memories: Memory[], variables: TemplateVariables): string {
+        return memories.length > 0 && !templateUsesVariable(this.template.system, 'memories')
+            ? renderTemplate(this.template.memory_prefix, variables) + '\n' +
+            memories.map(m => this.formatMemory(m)).join('\n') +
+            renderTemplate(this.template.memory_suffix, variables)
             : '';
+    }
 
-        // Format personality details
-        const personalityText = this.template.personality_prefix + '\n' +
-            this.formatPersonality(personality) +
-            this.template.personality_suffix;
+    /**
+     * Personality details, unless the system message already carries them
+     */
+    private formatPersonalitySection(
+        personality: AgentPersonality,
+        variables: TemplateVariables,
+        mood?: MoodState
+    ): string {
+        return templateUsesVariable(this.template.system, 'personality')
+            ? ''
+            : renderTemplate(this.template.personality_prefix, variables) + '\n' +
+            this.formatPersonality(personality, mood) +
+            renderTemplate(this.template.personality_suffix, variables);
+    }
+
+    /**
+     * Render the [system, context, user] messages
+     */
+    private renderPrompt(
+        userMessage: string,
+        context: string,
+        memories: Memory[],
+        personality: AgentPersonality,
+        mood?: MoodState
+    ): string[] {
+        const variables = this.getVariables(personality, context, memories, mood);
+
+        // Format the system message
+        const systemMessage = renderTemplate(this.template.system, variables);
 
         // Combine into context message
-        const contextMessage = this.template.context.replace('{context}', context) +
-            memoriesText +
-            personalityText;
+        const contextMessage = renderTemplate(this.template.context, variables) +
+            this.formatMemoriesSection(memories, variables) +
+            this.formatPersonalitySection(personality, variables, mood);
 
-        // Return complete prompt array
         return [
             systemMessage,
             contextMessage,
@@ -135,13 +370,226 @@ export class PromptBuilder {
     }
 
     /**
-     * Update the template configuration
+     * Render role-tagged messages: a system message carrying personality
+     * and memories in place of `{{context}}`, the history as-is, then the
+     * user message. The `context` template is not used, as history is sent
+     * as real messages.
+     */
+    private renderMessages(
+        userMessage: string,
+        history: ChatMessage[],
+        memories: Memory[],
+        personality: AgentPersonality,
+        mood?: MoodState
+    ): LLMMessage[] {
+        const variables = this.getVariables(personality, '', memories, mood);
+        const sections = this.formatMemoriesSection(memories, variables) +
+            this.formatPersonalitySection(personality, variables, mood);
+        const systemMessage = templateUsesVariable(this.template.system, 'context')
+            ? renderTemplate(this.template.system, { ...variables, context: sections })
+            : renderTemplate(this.template.system, variables) + sections;
+
+        return [
+            {
+                role: 'system',
+                content: systemMessage,
+                metadata: { memoryIds: memories.map(memory => memory.id) }
+            },
+            ...history.map(message => ({
+                role: message.role,
+                content: message.content,
+                metadata: { memoryIds: message.metadata?.memoryIds ?? [] }
+            })),
+            {
+                role: 'user',
+                content: userMessage,
+                metadata: { memoryIds: [] }
+            }
+        ];
+    }
+
+    private countPromptTokens(prompt: (string | LLMMessage)[]): number {
+        return prompt.reduce((sum, message) => {
+            const content = typeof message === 'string' ? message : message.content;
+            return sum + this.tokenizer.countTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+        }, 0);
+    }
+
+    /**
+     * Build a complete prompt incorporating memory and personality. With a
+     * flattened `context` string this returns `[system, context, user]`;
+     * with the chat history it returns role-tagged messages ready for
+     * `LLMProvider.generateCompletion`.
+     */
+    public async buildPrompt(userMessage: string, context?: string, memoryParams?: MemorySearchParams): Promise<string[]>;
+    public async buildPrompt(userMessage: string, history: ChatMessage[], memoryParams?: MemorySearchParams): Promise<LLMMessage[]>;
+    public async buildPrompt(
+        userMessage: string,
+        context: string | ChatMessage[] = '',
+        memoryParams: MemorySearchParams = { limit: 5, importance_threshold: 0.5 }
+    ): Promise<string[] | LLMMessage[]> {
+        const { memories, personality, mood } = await this.loadPromptInputs(userMessage, memoryParams);
+        return Array.isArray(context)
+            ? this.renderMessages(userMessage, context, memories, personality, mood)
+            : this.renderPrompt(userMessage, context, memories, personality, mood);
+    }
+
+    /**
+     * Build a prompt that fits the model's context window. A `context`
+     * string is treated as history with one entry per line; a chat history
+     * has one entry per message. While over budget, trims whichever of
+     * memories or history is currently larger: the lowest-ranked memory
+     * (truncated first if that is enough) or the oldest history entry. The
+     * report lists everything that was cut.
      */
-    public setTemplate(template: Partial<PromptTemplate>): void {
-        this.template = {
+    public async buildBudgetedPrompt(
+        userMessage: string,
+        context: string,
+        budget: PromptBudget,
+        memoryParams?: MemorySearchParams
+    ): Promise<BudgetedPrompt>;
+    public async buildBudgetedPrompt(
+        userMessage: string,
+        history: ChatMessage[],
+        budget: PromptBudget,
+        memoryParams?: MemorySearchParams
+    ): Promise<BudgetedPrompt<LLMMessage[]>>;
+    public async buildBudgetedPrompt(
+        userMessage: string,
+        context: string | ChatMessage[],
+        budget: PromptBudget,
+        memoryParams: MemorySearchParams = { limit: 5, importance_threshold: 0.5 }
+    ): Promise<BudgetedPrompt<string[] | LLMMessage[]>> {
+        const { memories, personality, mood } = await this.loadPromptInputs(userMessage, memoryParams);
+
+        if (Array.isArray(context)) {
+            return this.fitToBudget(
+                memories,
+                context,
+                budget,
+                (included, history) => this.renderMessages(userMessage, history, included, personality, mood),
+                message => message.content
+            );
+        }
+
+        return this.fitToBudget(
+            memories,
+            context ? context.split('\n') : [],
+            budget,
+            (included, history) => this.renderPrompt(userMessage, history.join('\n'), included, personality, mood),
+            entry => entry
+        );
+    }
+
+    /**
+     * Trim memories and history until the rendered prompt fits the budget
+     */
+    private fitToBudget<T extends (string | LLMMessage)[], H>(
+        memories: Memory[],
+        initialHistory: H[],
+        budget: PromptBudget,
+        render: (memories: Memory[], history: H[]) => T,
+        historyText: (entry: H) => string
+    ): BudgetedPrompt<T> {
+        const available = budget.contextWindow - (budget.reservedForResponse ?? DEFAULT_RESPONSE_RESERVE);
+        const truncated = new Set<string>();
+        const dropped: string[] = [];
+        let droppedHistory = 0;
+
+        let included = memories.map(memory => {
+            if (budget.maxMemoryTokens === undefined) {
+                return memory;
+            }
+            const text = truncateToTokens(memory.text, budget.maxMemoryTokens, this.tokenizer);
+            if (text === memory.text) {
+                return memory;
+            }
+            truncated.add(memory.id);
+            return { ...memory, text };
+        });
+        let history = initialHistory;
+
+        let prompt = render(included, history);
+        let total = this.countPromptTokens(prompt);
+
+        while (total > available && (included.length > 0 || history.length > 0)) {
+            const memoryTokens = included.reduce((sum, memory) => sum + this.tokenizer.countTokens(memory.text), 0);
+            const historyTokens = history.reduce((sum, entry) => sum + this.tokenizer.countTokens(historyText(entry)), 0);
+
+            if (included.length > 0 && (memoryTokens >= historyTokens || history.length === 0)) {
+                const last = included[included.length - 1];
+                const lastTokens = this.tokenizer.countTokens(last.text);
+                const remaining = lastTokens - (total - available);
+
+                if (!truncated.has(last.id) && remaining >= MIN_TRUNCATED_MEMORY_TOKENS) {
+                    truncated.add(last.id);
+                    included = [...included.slice(0, -1), { ...last, text: truncateToTokens(last.text, remaining, this.tokenizer) }];
+                } else {
+                    included = included.slice(0, -1);
+                    truncated.delete(last.id);
+                    dropped.push(last.id);
+                }
+            } else {
+                history = history.slice(1);
+                droppedHistory++;
+            }
+
+            prompt = render(included, history);
+            total = this.countPromptTokens(prompt);
+        }
+
+        return {
+            prompt,
+            report: {
+                contextWindow: budget.contextWindow,
+                budget: available,
+                totalTokens: total,
+                fits: total <= available,
+                includedMemoryIds: included.map(memory => memory.id),
+                droppedMemoryIds: dropped,
+                truncatedMemoryIds: Array.from(truncated),
+                droppedHistory
+            }
+        };
+    }
+
+    /**
+     * Unknown placeholders in a template, as `section: placeholder`.
+     * Throws TemplateSyntaxError for malformed templates.
+     */
+    public validateTemplate(template: PromptTemplate = this.template): string[] {
+        const known = [...PROMPT_VARIABLES, ...Object.keys(this.variables)];
+        const issues: string[] = [];
+
+        for (const [section, source] of Object.entries(template)) {
+            if (typeof source !== 'string') {
+                continue;
+            }
+            const variables = section === 'memory_item' ? MEMORY_ITEM_VARIABLES : known;
+            validateTemplate(source, variables).forEach(placeholder => issues.push(`${section}: ${placeholder}`));
+        }
+        return issues;
+    }
+
+    /**
+     * Update the template configuration. Returns unknown placeholders, which
+     * would render as empty text; malformed templates throw and are not applied.
+     */
+    public setTemplate(template: Partial<PromptTemplate>): string[] {
+        const updated = {
             ...this.template,
             ...template
         };
+        const issues = this.validateTemplate(updated);
+        this.template = updated;
+        return issues;
+    }
+
+    /**
+     * Add or override template variables such as `user_name`
+     */
+    public setVariables(variables: TemplateVariables): void {
+        this.variables = { ...this.variables, ...variables };
     }
 }
 
@@ -157,7 +605,7 @@ export class LocalStorageMemoryProvider implements MemoryProvider {
 
     async searchMemories(params: MemorySearchParams): Promise<Memory[]> {
         const stored = localStorage.getItem(this.storageKey);
-        const memories: Memory[] = stored ? JSON.parse(stored) : [];
+        const memories: Memory[] = stored ? (JSON.parse(stored) as unknown[]).map(loadMemoryDocument) : [];
 
         return this.filterMemories(memories, params);
     }
@@ -205,5 +653,37 @@ export class LocalStorageMemoryProvider implements MemoryProvider {
  *   "",
  *   { importance_threshold: 0.7 }
  * );
+ *
+ * // Fit an 8k context window, keeping 1k tokens for the reply
+ * const { prompt: fitted, report } = await promptBuilder.buildBudgetedPrompt(
+ *   "What were we discussing about astronomy?",
+ *   history.join('\n'),
+ *   { contextWindow: 8192, reservedForResponse: 1024, maxMemoryTokens: 200 },
+ *   { limit: 20 }
+ * );
+ * if (!report.fits) {
+ *   console.warn('Prompt exceeds the context window even after trimming');
+ * }
+ * console.log('Dropped memories:', report.droppedMemoryIds);
+ *
+ * // Pass the chat history to get role-tagged messages for the provider
+ * const messages = await promptBuilder.buildPrompt(
+ *   "What were we discussing about astronomy?",
+ *   chatHistory
+ * );
+ * const reply = await createLLMProvider(config).generateCompletion(messages);
+ *
+ * // Customize the template; unknown placeholders are reported
+ * promptBuilder.setVariables({ user_name: 'Sam' });
+ * const issues = promptBuilder.setTemplate({
+ *   system: `You are {{agent_name}}, talking with {{user_name}} on {{date}}.
+ * {{#if memories}}You remember:
+ * {{#each memories}}- {{text}}
+ * {{/each}}{{else}}This is your first conversation.{{/if}}`,
+ *   memory_item: '- [{{focus_area}}] {{observation}}'
+ * });
+ * if (issues.length > 0) {
+ *   console.warn('Unknown placeholders:', issues);
+ * }
  * ```
  */
\ No newline at end of file
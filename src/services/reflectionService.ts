@@ -0,0 +1,301 @@
+import { Memory, MemoryUpdateEvent } from '../types/memory.types';
+import { LLMError, LLMProvider, completePrompt } from '../config/llm.config';
+import { MemoryManager } from './MemoryManager';
+import { formatIssues, parseJsonWithSchema, schema } from '../utils/schema';
+
+/**
+ * Configuration for the reflection engine
+ */
+export interface ReflectionOptions {
+    memoryThreshold?: number;
+    minClusterSize?: number;
+    maxEvidence?: number;
+    intervalMs?: number;
+}
+
+/**
+ * Insight produced by the LLM for a cluster of memories
+ */
+interface ReflectionInsight {
+    insight: string;
+    observation?: string;
+    importance?: number;
+    emotion_score?: number;
+}
+
+/**
+ * Shape the model must return; out-of-range numbers are clamped later
+ */
+const insightSchema = schema.object({
+    insight: schema.string({ nonEmpty: true }),
+    observation: schema.optional(schema.string()),
+    importance: schema.optional(schema.number()),
+    emotion_score: schema.optional(schema.number())
+});
+
+export const DEFAULT_REFLECTION_OPTIONS: Required<ReflectionOptions> = {
+    memoryThreshold: 10,
+    minClusterSize: 3,
+    maxEvidence: 10,
+    intervalMs: 0
+};
+
+export const REFLECTION_KIND = 'reflection';
+
+/**
+ * Check whether a memory was produced by reflection
+ */
+export function isReflection(memory: Memory): boolean {
+    return memory.metadata?.kind === REFLECTION_KIND;
+}
+
+/**
+ * Synthesizes higher-level "reflection" memories from clusters of related
+ * memories. Clusters are formed by shared focus_area and linked_memories;
+ * each reflection links back to its evidence.
+ */
+export class ReflectionService {
+    private readonly memoryManager: MemoryManager;
+    private readonly llmProvider: LLMProvider;
+    private readonly options: Required<ReflectionOptions>;
+    private newMemoryCount = 0;
+    private reflecting = false;
+    private timer?: ReturnType<typeof setInterval>;
+    private readonly onMemoryUpdate = (event: MemoryUpdateEvent) => this.handleMemoryUpdate(event);
+
+    constructor(memoryManager: MemoryManager, llmProvider: LLMProvider, options: ReflectionOptions = {}) {
+        this.memoryManager = memoryManager;
+        this.llmProvider = llmProvider;
+        this.options = { ...DEFAULT_REFLECTION_OPTIONS, ...options };
+    }
+
+    /**
+     * Start reflecting after every `memoryThreshold` new memories and,
+     * if `intervalMs` is set, periodically
+     */
+    public start(): void {
+        this.memoryManager.on('memoryUpdate', this.onMemoryUpdate);
+
+        if (this.options.intervalMs > 0 && !this.timer) {
+            this.timer = setInterval(() => {
+                this.reflect().catch(console.error);
+            }, this.options.intervalMs);
+        }
+    }
+
+    /**
+     * Stop listening for new memories and cancel periodic reflection
+     */
+    public stop(): void {
+        this.memoryManager.off('memoryUpdate', this.onMemoryUpdate);
+
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private handleMemoryUpdate(event: MemoryUpdateEvent): void {
+        if (event.type !== 'create' || isReflection(event.memory)) {
+            return;
+        }
+
+        this.newMemoryCount++;
+        if (this.newMemoryCount >= this.options.memoryThreshold) {
+            this.reflect().catch(console.error);
+        }
+    }
+
+    /**
+     * Reflect over memories not yet used as evidence and store the resulting
+     * insights. Provider failures are rethrown as typed LLMErrors
+     * (RateLimitError, LLMTimeoutError, ...).
+     */
+    public async reflect(): Promise<Memory[]> {
+        if (this.reflecting) {
+            return [];
+        }
+
+        this.reflecting = true;
+        this.newMemoryCount = 0;
+
+        try {
+            const memories = await this.memoryManager.getAllMemories();
+            const clusters = this.findClusters(memories);
+            const reflections: Memory[] = [];
+
+            for (const cluster of clusters) {
+                const reflection = await this.reflectOnCluster(cluster);
+                if (reflection) {
+                    reflections.push(reflection);
+                }
+            }
+
+            return reflections;
+        } finally {
+            this.reflecting = false;
+        }
+    }
+
+    /**
+     * Group unreflected memories by shared focus_area and links
+     */
+    public findClusters(memories: Memory[]): Memory[][] {
+        const reflected = new Set<string>();
+        memories.filter(isReflection).forEach(reflection => {
+            const evidence: string[] = reflection.metadata?.evidence || reflection.linked_memories;
+            evidence.forEach(id => reflected.add(id));
+        });
+
+        const candidates = memories.filter(memory =>
+            !isReflection(memory) &&
+            memory.status !== 'archived' &&
+            !reflected.has(memory.id)
+        );
+
+        // Union-find over candidate ids
+        const parent = new Map<string, string>();
+        candidates.forEach(memory => parent.set(memory.id, memory.id));
+
+        const find = (id: string): string => {
+            let root = id;
+            while (parent.get(root) !== root) {
+                root = parent.get(root)!;
+            }
+            parent.set(id, root);
+            return root;
+        };
+        const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+        const byFocusArea = new Map<string, string>();
+        for (const memory of candidates) {
+            const focusArea = memory.context.focus_area;
+            if (focusArea && focusArea !== 'general') {
+                const first = byFocusArea.get(focusArea);
+                if (first) {
+                    union(memory.id, first);
+                } else {
+                    byFocusArea.set(focusArea, memory.id);
+                }
+            }
+
+            memory.linked_memories
+                .filter(linkId => parent.has(linkId))
+                .forEach(linkId => union(memory.id, linkId));
+        }
+
+        const clusters = new Map<string, Memory[]>();
+        for (const memory of candidates) {
+            const root = find(memory.id);
+            clusters.set(root, [...(clusters.get(root) || []), memory]);
+        }
+
+        return Array.from(clusters.values())
+            .filter(cluster => cluster.length >= this.options.minClusterSize)
+            .map(cluster => cluster
+                .sort((a, b) => b.importance - a.importance)
+                .slice(0, this.options.maxEvidence));
+    }
+
+    /**
+     * Ask the LLM for an insight about a cluster and store it as a reflection memory
+     */
+    private async reflectOnCluster(cluster: Memory[]): Promise<Memory | null> {
+        const insight = await this.generateInsight(cluster);
+        if (!insight) {
+            return null;
+        }
+
+        const evidence = cluster.map(memory => memory.id);
+        const focusArea = this.mostCommon(cluster.map(memory => memory.context.focus_area));
+        const averageEmotion = cluster.reduce((sum, memory) => sum + memory.emotion_score, 0) / cluster.length;
+        const maxImportance = Math.max(...cluster.map(memory => memory.importance));
+
+        return this.memoryManager.createMemory({
+            text: insight.insight,
+            observation: insight.observation ?? insight.insight,
+            conversation: {
+                agent_messages: [],
+                user_messages: []
+            },
+            context: {
+                focus_area: focusArea,
+                user_state: '',
+                scene_details: `Reflection over ${cluster.length} memories`,
+                interaction_type: REFLECTION_KIND
+            },
+            importance: this.clamp(insight.importance ?? maxImportance, 0, 1),
+            emotion_score: this.clamp(insight.emotion_score ?? averageEmotion, -1, 1),
+            linked_memories: evidence,
+            metadata: {
+                kind: REFLECTION_KIND,
+                evidence
+            }
+        });
+    }
+
+    /**
+     * Prompt the LLM to summarize a cluster into a single insight. Output
+     * that fails validation yields null; LLMErrors are rethrown.
+     */
+    private async generateInsight(cluster: Memory[]): Promise<ReflectionInsight | null> {
+        const statements = cluster
+            .map((memory, index) => `${index + 1}. ${memory.observation || memory.text}`)
+            .join('\n');
+
+        const prompt = `Below are observations an AI companion has made about a user. What high-level insight about the user can be inferred from them? Only respond with valid JSON, no markdown:
+    {
+      "insight": "A single sentence describing the insight, e.g. 'User is an amateur astronomer who stays up late'",
+      "observation": "A short narrative explaining how the observations support the insight",
+      "importance": 0.5,
+      "emotion_score": 0
+    }
+
+    Observations:
+    ${statements}
+    `;
+
+        try {
+            const response = await completePrompt(this.llmProvider, prompt);
+            const result = parseJsonWithSchema(response, insightSchema);
+            if (!result.success) {
+                console.error('Reflection output failed validation:', formatIssues(result.issues));
+                return null;
+            }
+            return result.value;
+        } catch (error) {
+            if (error instanceof LLMError) {
+                throw error;
+            }
+            console.error('Error generating reflection:', error);
+            return null;
+        }
+    }
+
+    private mostCommon(values: string[]): string {
+        const counts = new Map<string, number>();
+        values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    private clamp(value: number, min: number, max: number): number {
+        return Math.max(min, Math.min(max, value));
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const llmProvider = createLLMProvider({ provider: 'openai', apiKey: 'your-api-key', model: 'gpt-4o' });
+ * const reflection = new ReflectionService(memoryManager, llmProvider, {
+ *   memoryThreshold: 20
+ * });
+ *
+ * // Reflect automatically after every 20 new memories
+ * reflection.start();
+ *
+ * // Or on demand
+ * const insights = await reflection.reflect();
+ * ```
+ */
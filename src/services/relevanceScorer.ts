@@ -0,0 +1,114 @@
+import { Memory, RelevanceWeights, ScoredMemory } from '../types/memory.types';
+import { tokenize } from './embeddingProvider';
+
+/**
+ * Options controlling composite relevance scoring
+ */
+export interface RelevanceOptions {
+    weights?: Partial<RelevanceWeights>;
+    recencyHalfLifeHours?: number;
+    kindMultipliers?: Record<string, number>;
+    now?: number;
+}
+
+/**
+ * Default weights, loosely following generative-agents retrieval
+ */
+export const DEFAULT_RELEVANCE_WEIGHTS: RelevanceWeights = {
+    recency: 1,
+    importance: 1,
+    emotion: 0.5,
+    similarity: 1,
+    frequency: 0.25
+};
+
+export const DEFAULT_RECENCY_HALF_LIFE_HOURS = 72;
+
+/**
+ * Score multipliers keyed by `metadata.kind`; synthesized reflections
+ * outrank the individual memories they summarize
+ */
+export const DEFAULT_KIND_MULTIPLIERS: Record<string, number> = {
+    reflection: 1.25
+};
+
+/**
+ * Exponential recency decay based on the last time a memory was touched
+ */
+export function recencyScore(memory: Memory, now: number, halfLifeHours: number): number {
+    const reference = Math.max(memory.created_at, memory.last_accessed ?? 0);
+    const hoursElapsed = Math.max(0, now - reference) / (1000 * 60 * 60);
+    return Math.pow(0.5, hoursElapsed / halfLifeHours);
+}
+
+/**
+ * Saturating score for how often a memory has been retrieved
+ */
+export function frequencyScore(memory: Memory): number {
+    const count = memory.access_count ?? 0;
+    return 1 - 1 / (1 + count);
+}
+
+/**
+ * Token overlap between a query and a text, used when no embeddings exist
+ */
+export function lexicalSimilarity(query: string, text: string): number {
+    const queryTokens = new Set(tokenize(query));
+    if (queryTokens.size === 0) {
+        return 0;
+    }
+
+    const textTokens = new Set(tokenize(text));
+    let overlap = 0;
+    queryTokens.forEach(token => {
+        if (textTokens.has(token)) {
+            overlap++;
+        }
+    });
+
+    return overlap / queryTokens.size;
+}
+
+/**
+ * Score a memory as the weighted mean of its relevance components.
+ * When no similarity is given (no query) it is left out of the mean.
+ */
+export function scoreMemory(
+    memory: Memory,
+    similarity: number | undefined,
+    options: RelevanceOptions = {}
+): ScoredMemory {
+    const weights = { ...DEFAULT_RELEVANCE_WEIGHTS, ...options.weights };
+    const now = options.now ?? Date.now();
+    const halfLife = options.recencyHalfLifeHours ?? DEFAULT_RECENCY_HALF_LIFE_HOURS;
+
+    const components: RelevanceWeights = {
+        recency: recencyScore(memory, now, halfLife),
+        importance: memory.importance,
+        emotion: Math.abs(memory.emotion_score),
+        similarity: Math.max(0, similarity ?? 0),
+        frequency: frequencyScore(memory)
+    };
+
+    let weightedSum = 0;
+    let weightTotal = 0;
+    (Object.keys(components) as (keyof RelevanceWeights)[]).forEach(key => {
+        if (key === 'similarity' && similarity === undefined) {
+            return;
+        }
+        weightedSum += weights[key] * components[key];
+        weightTotal += weights[key];
+    });
+
+    const multipliers = { ...DEFAULT_KIND_MULTIPLIERS, ...options.kindMultipliers };
+    const kind = memory.metadata?.kind;
+    const kindMultiplier = kind && multipliers[kind] !== undefined ? multipliers[kind] : 1;
+
+    const score = (weightTotal > 0 ? weightedSum / weightTotal : 0) * kindMultiplier;
+
+    return {
+        memory,
+        score,
+        breakdown: { ...components, kind_multiplier: kindMultiplier, total: score }
+    };
+}
@@ -0,0 +1,80 @@
+import { Memory, MemoryLink, ScoredMemory } from '../types/memory.types';
+import { buildMemoryGraph } from './memoryGraph';
+import { spreadActivation } from './spreadingActivation';
+
+function memory(id: string, links: MemoryLink[] = [], fields: Partial<Memory> = {}): Memory {
+    return {
+        id,
+        text: `Memory ${id}`,
+        glimpse_id: `glimpse_${id}`,
+        observation: `Observation ${id}`,
+        conversation: { agent_messages: [], user_messages: [] },
+        context: { focus_area: 'general', user_state: '', scene_details: '', interaction_type: 'general' },
+        importance: 0.5,
+        emotion_score: 0,
+        linked_memories: [],
+        links,
+        created_at: Date.UTC(2024, 0, 1),
+        ...fields
+    };
+}
+
+/**
+ * a -0.9-> b -0.8-> c -1-> d, and an archived e strongly linked to a
+ */
+const memories = new Map([
+    memory('a', [{ target: 'b', type: 'causes', weight: 0.9 }]),
+    memory('b', [{ target: 'c', type: 'elaborates', weight: 0.8 }]),
+    memory('c', [{ target: 'd', type: 'related', weight: 1 }]),
+    memory('d'),
+    memory('e', [{ target: 'a', type: 'related', weight: 1 }], { status: 'archived', archived_at: Date.UTC(2024, 0, 2) })
+].map(m => [m.id, m]));
+const graph = buildMemoryGraph(Array.from(memories.values()));
+
+function seed(id: string, score: number): ScoredMemory {
+    return {
+        memory: memories.get(id)!,
+        score,
+        breakdown: { recency: 0, importance: 0, emotion: 0, similarity: score, frequency: 0, kind_multiplier: 1, total: score }
+    };
+}
+
+function summarize(params: Parameters<typeof spreadActivation>[2], seeds = [seed('a', 1)], tokenizer?: Parameters<typeof spreadActivation>[3]) {
+    return spreadActivation(graph, seeds, params, tokenizer)
+        .map(({ memory: m, activation, hops, via }) => ({ id: m.id, activation: Number(activation.toFixed(4)), hops, via }));
+}
+
+describe('spreadActivation', () => {
+    it('passes on activation * weight * decay per hop, up to max_hops, skipping archived memories', () => {
+        expect(summarize({})).toEqual([
+            { id: 'a', activation: 1, hops: 0, via: undefined },
+            { id: 'b', activation: 0.45, hops: 1, via: 'a' },
+            { id: 'c', activation: 0.18, hops: 2, via: 'b' }
+        ]);
+        expect(summarize({ max_hops: 3 }).map(entry => entry.id)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('stops spreading below the threshold', () => {
+        expect(summarize({ max_hops: 3, threshold: 0.1 }).map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps the strongest activation reaching each memory', () => {
+        expect(summarize({}, [seed('a', 1), seed('c', 0.3)])).toEqual([
+            { id: 'a', activation: 1, hops: 0, via: undefined },
+            { id: 'b', activation: 0.45, hops: 1, via: 'a' },
+            { id: 'c', activation: 0.3, hops: 0, via: undefined },
+            { id: 'd', activation: 0.15, hops: 1, via: 'c' }
+        ]);
+    });
+
+    it('uses only the first seed_count seeds', () => {
+        expect(summarize({ seed_count: 1, max_hops: 0 }, [seed('a', 1), seed('d', 0.9)]).map(entry => entry.id)).toEqual(['a']);
+    });
+
+    it('caps results by max_results and by max_tokens, skipping memories that do not fit', () => {
+        const tokenizer = { countTokens: (text: string) => text === 'Memory b' ? 10 : 1 };
+
+        expect(summarize({ max_results: 2 }).map(entry => entry.id)).toEqual(['a', 'b']);
+        expect(summarize({ max_tokens: 3 }, undefined, tokenizer).map(entry => entry.id)).toEqual(['a', 'c']);
+    });
+});
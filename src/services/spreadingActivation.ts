@@ -0,0 +1,83 @@
+import { ActivatedMemory, MemoryGraph, ScoredMemory, SpreadingActivationParams } from '../types/memory.types';
+import { getNeighbors } from './memoryGraph';
+import { Tokenizer, defaultTokenizer } from './tokenizer';
+
+export const DEFAULT_SPREADING_ACTIVATION: Required<Omit<SpreadingActivationParams, 'max_tokens'>> = {
+    seed_count: 3,
+    decay: 0.5,
+    max_hops: 2,
+    threshold: 0.05,
+    max_results: 10
+};
+
+/**
+ * Spread activation from seed memories along graph edges.
+ *
+ * Each seed starts with its retrieval score. Every hop passes on
+ * `activation * edge weight * decay` to neighbors; a memory keeps the
+ * strongest activation that reaches it. Memories below `threshold` stop
+ * spreading. The result is ranked by activation and capped by
+ * `max_results` and, when given, `max_tokens` as counted by `tokenizer`.
+ */
+export function spreadActivation(
+    graph: MemoryGraph,
+    seeds: ScoredMemory[],
+    params: SpreadingActivationParams = {},
+    tokenizer: Tokenizer = defaultTokenizer
+): ActivatedMemory[] {
+    const options = { ...DEFAULT_SPREADING_ACTIVATION, ...params };
+    const nodes = new Map(graph.nodes.map(memory => [memory.id, memory]));
+    const activated = new Map<string, ActivatedMemory>();
+
+    for (const seed of seeds.slice(0, options.seed_count)) {
+        activated.set(seed.memory.id, { memory: seed.memory, activation: seed.score, hops: 0 });
+    }
+
+    let frontier = Array.from(activated.values());
+    for (let hop = 1; hop <= options.max_hops && frontier.length > 0; hop++) {
+        const next = new Map<string, ActivatedMemory>();
+
+        for (const source of frontier) {
+            for (const neighbor of getNeighbors(graph, source.memory.id)) {
+                const memory = nodes.get(neighbor.id);
+                if (!memory || memory.status === 'archived') {
+                    continue;
+                }
+
+                const activation = source.activation * neighbor.weight * options.decay;
+                if (activation < options.threshold) {
+                    continue;
+                }
+
+                const existing = activated.get(neighbor.id);
+                if (existing && existing.activation >= activation) {
+                    continue;
+                }
+
+                const entry: ActivatedMemory = { memory, activation, hops: hop, via: source.memory.id };
+                activated.set(neighbor.id, entry);
+                next.set(neighbor.id, entry);
+            }
+        }
+
+        frontier = Array.from(next.values());
+    }
+
+    const ranked = Array.from(activated.values()).sort((a, b) => b.activation - a.activation);
+
+    const results: ActivatedMemory[] = [];
+    let tokens = 0;
+    for (const entry of ranked) {
+        if (results.length >= options.max_results) {
+            break;
+        }
+        const cost = tokenizer.countTokens(entry.memory.text);
+        if (options.max_tokens !== undefined && tokens + cost > options.max_tokens) {
+            continue;
+        }
+        tokens += cost;
+        results.push(entry);
+    }
+
+    return results;
+}
@@ -0,0 +1,93 @@
+import {
+    TemplateSyntaxError,
+    compileTemplate,
+    escapeTemplate,
+    renderTemplate,
+    templateUsesVariable,
+    validateTemplate
+} from './templateEngine';
+
+describe('renderTemplate', () => {
+    it('substitutes variables and dotted paths', () => {
+        expect(renderTemplate('Hi {{ user_name }}, empathy {{traits.empathy}}', {
+            user_name: 'Sam',
+            traits: { empathy: 0.9 }
+        })).toBe('Hi Sam, empathy 0.9');
+    });
+
+    it('renders missing values as empty text and never re-parses inserted values', () => {
+        expect(renderTemplate('[{{missing}}][{{traits.missing.deeper}}][{{text}}]', {
+            traits: {},
+            text: '{{secret}}'
+        })).toBe('[][][{{secret}}]');
+    });
+
+    it('renders the matching branch of #if/else', () => {
+        const source = '{{#if mood}}Feeling {{mood}}{{else}}No mood{{/if}}';
+
+        expect(renderTemplate(source, { mood: 'calm' })).toBe('Feeling calm');
+        expect(renderTemplate(source, { mood: '' })).toBe('No mood');
+        expect(renderTemplate('{{#if list}}some{{else}}none{{/if}}', { list: [] })).toBe('none');
+    });
+
+    it('repeats #each blocks with the item, its fields and @index in scope', () => {
+        expect(renderTemplate('{{#each traits}}{{@index}}:{{name}}={{value}} {{/each}}', {
+            traits: [{ name: 'empathy', value: 0.9 }, { name: 'humor', value: 0.4 }]
+        })).toBe('0:empathy=0.9 1:humor=0.4 ');
+        expect(renderTemplate('{{#each tags}}<{{this}}>{{/each}}', { tags: ['a', 'b'] })).toBe('<a><b>');
+    });
+
+    it('renders escaped braces literally', () => {
+        expect(renderTemplate('\\{{name}} \\{name}', { name: 'Sam' })).toBe('{{name}} {name}');
+        expect(renderTemplate(escapeTemplate('{"a": {{b}}}'), { b: 1 })).toBe('{"a": {{b}}}');
+    });
+
+    it('fills legacy {name} placeholders only for known variables', () => {
+        expect(renderTemplate('Hi {user_name}, reply as {"format": {json}}', { user_name: 'Sam' }))
+            .toBe('Hi Sam, reply as {"format": {json}}');
+        expect(renderTemplate('{{#each items}}{name} {{/each}}', { items: [{ name: 'x' }] })).toBe('x ');
+    });
+
+    it.each([
+        ['{{#if a}}open', 'Unclosed {{#if}}'],
+        ['{{/each}}', 'Unexpected {{/each}}'],
+        ['{{else}}', 'Unexpected {{else}}'],
+        ['{{#with a}}{{/with}}', 'Unknown block: #with'],
+        ['{{a b}}', 'Invalid placeholder: a b']
+    ])('rejects %s', (source, message) => {
+        expect(() => renderTemplate(source, {})).toThrow(new TemplateSyntaxError(message));
+    });
+});
+
+describe('validateTemplate', () => {
+    it('reports unknown placeholders outside #each blocks', () => {
+        expect(validateTemplate(
+            '{{usr_name}} {{#if mood}}{{mood.label}}{{/if}} {{#each list}}{{field}}{{/each}} {literal}',
+            ['mood', 'list']
+        )).toEqual(['usr_name']);
+    });
+});
+
+describe('templateUsesVariable', () => {
+    it('finds variables in placeholders and block paths', () => {
+        expect(templateUsesVariable('{{#if memories}}x{{/if}}', 'memories')).toBe(true);
+        expect(templateUsesVariable('{personality.traits}', 'personality')).toBe(true);
+        expect(templateUsesVariable('{{memory_count}}', 'memories')).toBe(false);
+    });
+});
+
+describe('compileTemplate', () => {
+    it('caches compiled templates and evicts the least recently used past 100', () => {
+        const first = compileTemplate('lru {{first}}');
+        const second = compileTemplate('lru {{second}}');
+        for (let i = 0; i < 99; i++) {
+            compileTemplate(`lru {{filler}} ${i}`);
+            if (i === 50) {
+                expect(compileTemplate('lru {{first}}')).toBe(first);
+            }
+        }
+
+        expect(compileTemplate('lru {{first}}')).toBe(first);
+        expect(compileTemplate('lru {{second}}')).not.toBe(second);
+    });
+});
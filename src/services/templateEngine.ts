@@ -0,0 +1,297 @@
+/**
+ * Small, sandboxed template language for prompt templates.
+ *
+ * - `{{name}}` and dotted paths such as `{{traits.empathy}}`
+ * - `{{#if name}}...{{else}}...{{/if}}`
+ * - `{{#each list}}...{{/each}}`, with `{{this}}`, `{{@index}}` and the
+ *   item's fields in scope
+ * - `\{{` and `\{` for literal braces
+ * - legacy single-brace `{name}` placeholders, for known variables only;
+ *   any other `{word}` is left as written
+ *
+ * Templates can only read the variables they are given; values are inserted
+ * as plain text and never parsed as template syntax.
+ */
+
+export type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'var'; path: string; legacy?: boolean }
+    | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; path: string; body: TemplateNode[] };
+
+export type TemplateVariables = Record<string, unknown>;
+
+/**
+ * Thrown for malformed templates, e.g. an unclosed `{{#if}}`
+ */
+export class TemplateSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+const TOKEN_PATTERN = /\\\{\{|\\\{|\{\{\s*([^{}]*?)\s*\}\}|\{([A-Za-z_][\w.]*)\}/g;
+const PATH_PATTERN = /^(@index|this|[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+
+interface OpenBlock {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+    inElse: boolean;
+}
+
+/**
+ * Compiled templates, least recently used first
+ */
+const cache = new Map<string, TemplateNode[]>();
+const MAX_CACHED_TEMPLATES = 100;
+
+/**
+ * Parse a template into nodes. Results are cached per source string; the
+ * least recently used entries are evicted past MAX_CACHED_TEMPLATES.
+ */
+export function compileTemplate(source: string): TemplateNode[] {
+    const cached = cache.get(source);
+    if (cached) {
+        cache.delete(source);
+        cache.set(source, cached);
+        return cached;
+    }
+
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+    const target = (): TemplateNode[] => {
+        const open = stack[stack.length - 1];
+        if (!open) {
+            return root;
+        }
+        if (open.node.type === 'if') {
+            return open.inElse ? open.node.otherwise : open.node.then;
+        }
+        return open.node.body;
+    };
+    const pushText = (value: string) => {
+        if (value) {
+            target().push({ type: 'text', value });
+        }
+    };
+    const checkPath = (path: string) => {
+        if (!PATH_PATTERN.test(path)) {
+            throw new TemplateSyntaxError(`Invalid placeholder: ${path}`);
+        }
+    };
+
+    let lastIndex = 0;
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+        pushText(source.slice(lastIndex, match.index));
+        lastIndex = TOKEN_PATTERN.lastIndex;
+
+        const [token, tag, legacy] = match;
+        if (token === '\\{{') {
+            pushText('{{');
+        } else if (token === '\\{') {
+            pushText('{');
+        } else if (legacy !== undefined) {
+            target().push({ type: 'var', path: legacy, legacy: true });
+        } else if (tag.startsWith('#')) {
+            const [keyword, path = ''] = tag.slice(1).split(/\s+/);
+            checkPath(path);
+            let node: OpenBlock['node'];
+            if (keyword === 'if') {
+                node = { type: 'if', path, then: [], otherwise: [] };
+            } else if (keyword === 'each') {
+                node = { type: 'each', path, body: [] };
+            } else {
+                throw new TemplateSyntaxError(`Unknown block: #${keyword}`);
+            }
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag.startsWith('/')) {
+            const open = stack.pop();
+            if (!open || open.node.type !== tag.slice(1)) {
+                throw new TemplateSyntaxError(`Unexpected {{${tag}}}`);
+            }
+        } else if (tag === 'else') {
+            const open = stack[stack.length - 1];
+            if (!open || open.node.type !== 'if' || open.inElse) {
+                throw new TemplateSyntaxError('Unexpected {{else}}');
+            }
+            open.inElse = true;
+        } else {
+            checkPath(tag);
+            target().push({ type: 'var', path: tag });
+        }
+    }
+    pushText(source.slice(lastIndex));
+
+    if (stack.length > 0) {
+        throw new TemplateSyntaxError(`Unclosed {{#${stack[stack.length - 1].node.type}}}`);
+    }
+
+    cache.set(source, root);
+    if (cache.size > MAX_CACHED_TEMPLATES) {
+        cache.delete(cache.keys().next().value!);
+    }
+    return root;
+}
+
+/**
+ * Innermost scope that defines a path's first segment
+ */
+function findScope(path: string, scopes: TemplateVariables[]): TemplateVariables | undefined {
+    const head = path.split('.')[0];
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (Object.prototype.hasOwnProperty.call(scopes[i], head)) {
+            return scopes[i];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Look a path up in the innermost scope that defines its first segment
+ */
+function resolvePath(path: string, scopes: TemplateVariables[]): unknown {
+    const [head, ...rest] = path.split('.');
+    let value = findScope(path, scopes)?.[head];
+
+    for (const key of rest) {
+        if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+            return undefined;
+        }
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+function isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(stringify).join(', ');
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateVariables[]): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.value;
+                break;
+            case 'var':
+                output += node.legacy && !findScope(node.path, scopes)
+                    ? `{${node.path}}`
+                    : stringify(resolvePath(node.path, scopes));
+                break;
+            case 'if':
+                output += renderNodes(isTruthy(resolvePath(node.path, scopes)) ? node.then : node.otherwise, scopes);
+                break;
+            case 'each': {
+                const list = resolvePath(node.path, scopes);
+                if (Array.isArray(list)) {
+                    list.forEach((item, index) => {
+                        const itemScope: TemplateVariables = typeof item === 'object' && item !== null
+                            ? { ...(item as TemplateVariables), this: item, '@index': index }
+                            : { this: item, '@index': index };
+                        output += renderNodes(node.body, [...scopes, itemScope]);
+                    });
+                }
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+/**
+ * Render a template with the given variables. Unknown `{{name}}`
+ * placeholders render as empty strings and unknown legacy `{name}` ones as
+ * written; use validateTemplate to catch them up front.
+ */
+export function renderTemplate(source: string, variables: TemplateVariables): string {
+    return renderNodes(compileTemplate(source), [variables]);
+}
+
+/**
+ * Placeholders whose first segment is not a known variable. Inside
+ * `{{#each}}` blocks, item fields are unknown up front, so only `this` and
+ * `@index` are checked there. Legacy `{name}` text that names no known
+ * variable renders as written, so it is not reported.
+ */
+export function validateTemplate(source: string, knownVariables: string[]): string[] {
+    const known = new Set(knownVariables);
+    const unknown: string[] = [];
+
+    const visit = (nodes: TemplateNode[], inEach: boolean) => {
+        for (const node of nodes) {
+            if (node.type === 'text') {
+                continue;
+            }
+            const head = node.path.split('.')[0];
+            const literal = node.type === 'var' && node.legacy;
+            if (!inEach && !literal && !known.has(head) && !unknown.includes(node.path)) {
+                unknown.push(node.path);
+            }
+            if (node.type === 'if') {
+                visit(node.then, inEach);
+                visit(node.otherwise, inEach);
+            } else if (node.type === 'each') {
+                visit(node.body, true);
+            }
+        }
+    };
+
+    visit(compileTemplate(source), false);
+    return unknown;
+}
+
+/**
+ * Whether a template reads a variable anywhere
+ */
+export function templateUsesVariable(source: string, name: string): boolean {
+    const visit = (nodes: TemplateNode[]): boolean => nodes.some(node => {
+        switch (node.type) {
+            case 'text':
+                return false;
+            case 'var':
+                return node.path.split('.')[0] === name;
+            case 'if':
+                return node.path.split('.')[0] === name || visit(node.then) || visit(node.otherwise);
+            case 'each':
+                return node.path.split('.')[0] === name || visit(node.body);
+        }
+    });
+    return visit(compileTemplate(source));
+}
+
+/**
+ * Escape text so it renders literally when used as template source
+ */
+export function escapeTemplate(text: string): string {
+    return text.replace(/\{/g, '\\{');
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * renderTemplate('Hello {{user_name}}! {{#if traits}}Traits: {{#each trait_list}}{{name}}={{value}} {{/each}}{{/if}}', {
+ *   user_name: 'Sam',
+ *   traits: { empathy: 0.9 },
+ *   trait_list: [{ name: 'empathy', value: 0.9 }]
+ * });
+ * // => 'Hello Sam! Traits: empathy=0.9 '
+ *
+ * validateTemplate('Hi {{usr_name}}', ['user_name']); // => ['usr_name']
+ * ```
+ */
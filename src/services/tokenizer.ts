@@ -0,0 +1,65 @@
+/**
+ * Interface for counting tokens, so budgets can match the target model
+ */
+export interface Tokenizer {
+    countTokens(text: string): number;
+}
+
+/**
+ * Offline approximation of BPE tokenizers: each word costs roughly one
+ * token per four characters and each punctuation mark one token
+ */
+export class HeuristicTokenizer implements Tokenizer {
+    countTokens(text: string): number {
+        const pieces = text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g);
+        if (!pieces) {
+            return 0;
+        }
+        return pieces.reduce((sum, piece) => sum + Math.max(1, Math.ceil(piece.length / 4)), 0);
+    }
+}
+
+export const defaultTokenizer: Tokenizer = new HeuristicTokenizer();
+
+/**
+ * Cut text down to at most `maxTokens`, ending with an ellipsis when shortened
+ */
+export function truncateToTokens(text: string, maxTokens: number, tokenizer: Tokenizer = defaultTokenizer): string {
+    if (tokenizer.countTokens(text) <= maxTokens) {
+        return text;
+    }
+
+    // Binary search on character length; token counts grow with length
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (tokenizer.countTokens(`${text.slice(0, mid)}...`) <= maxTokens) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    if (low === 0) {
+        return '';
+    }
+
+    // Prefer ending on a word boundary
+    const cut = text.slice(0, low);
+    const boundary = cut.lastIndexOf(' ');
+    return `${(boundary > 0 ? cut.slice(0, boundary) : cut).trimEnd()}...`;
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * // Plug in an exact tokenizer when one is available
+ * const tiktokenTokenizer: Tokenizer = {
+ *   countTokens: text => encoding.encode(text).length
+ * };
+ *
+ * defaultTokenizer.countTokens('How was the meteor shower?'); // 7
+ * truncateToTokens(longMemoryText, 50);
+ * ```
+ */
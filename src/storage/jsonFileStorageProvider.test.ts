@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStorageProvider } from './jsonFileStorageProvider';
+import { AgentPersonality, Memory } from '../types/memory.types';
+
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+
+async function readDataFile<T>(name: string): Promise<T> {
+    return JSON.parse(await fs.readFile(path.join(DATA_DIR, name), 'utf8')) as T;
+}
+
+describe('JsonFileStorageProvider', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mindsculpt-json-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    const providerAt = (name: string) => new JsonFileStorageProvider({
+        memoriesPath: path.join(dir, name, 'memories.json'),
+        personalityPath: path.join(dir, name, 'personality.json')
+    });
+
+    it('round-trips data/memories.json and data/personality.json unchanged', async () => {
+        const source = new JsonFileStorageProvider({
+            memoriesPath: path.join(DATA_DIR, 'memories.json'),
+            personalityPath: path.join(DATA_DIR, 'personality.json')
+        });
+        const target = providerAt('copy');
+
+        await target.saveMemories(await source.loadMemories());
+        await target.savePersonality((await source.loadPersonality())!);
+
+        expect(await target.loadMemories()).toEqual(await readDataFile<Memory[]>('memories.json'));
+        expect(await target.loadPersonality()).toEqual(await readDataFile<AgentPersonality>('personality.json'));
+    });
+
+    it('treats missing files as empty storage', async () => {
+        const provider = providerAt('missing');
+
+        expect(await provider.loadMemories()).toEqual([]);
+        expect(await provider.loadPersonality()).toBeNull();
+        expect(await provider.loadPersonalityHistory()).toEqual([]);
+        expect(await provider.loadMood()).toBeNull();
+    });
+
+    it('rethrows read errors other than a missing file', async () => {
+        const provider = providerAt('broken');
+        await fs.mkdir(path.join(dir, 'broken'));
+        await fs.writeFile(path.join(dir, 'broken', 'memories.json'), '{ not json', 'utf8');
+
+        await expect(provider.loadMemories()).rejects.toThrow(SyntaxError);
+    });
+
+    it('keeps history next to the personality file and appends in order', async () => {
+        const provider = providerAt('history');
+        const personality = await readDataFile<AgentPersonality>('personality.json');
+
+        await Promise.all([1, 2, 3].map(version => provider.appendPersonalityVersion({
+            version,
+            timestamp: version,
+            author: 'test',
+            reason: `v${version}`,
+            personality
+        })));
+
+        expect((await provider.loadPersonalityHistory()).map(entry => entry.version)).toEqual([1, 2, 3]);
+        await expect(fs.access(path.join(dir, 'history', 'personality.history.json'))).resolves.toBeUndefined();
+    });
+
+    it('serializes concurrent saves so the last one wins', async () => {
+        const provider = providerAt('concurrent');
+        const memories = await readDataFile<Memory[]>('memories.json');
+
+        await Promise.all(memories.map((_, index) => provider.saveMemories(memories.slice(0, index + 1))));
+
+        expect(await provider.loadMemories()).toEqual(memories);
+    });
+});
@@ -0,0 +1,97 @@
+import { AgentPersonality, Memory, MoodState, PersonalityVersion } from '../types/memory.types';
+import { MemoryStorageProvider } from '../services/MemoryManager';
+import { PersonalityStorageProvider } from '../services/personalityManager';
+import { MoodStorageProvider } from '../services/moodManager';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+/**
+ * File locations for the JSON storage provider
+ */
+export interface JsonFileStorageOptions {
+    memoriesPath: string;
+    personalityPath: string;
+    /** Defaults to personalityPath with `.json` replaced by `.history.json` */
+    historyPath?: string;
+    /** Defaults to personalityPath with `.json` replaced by `.mood.json` */
+    moodPath?: string;
+}
+
+/**
+ * Node storage provider backed by JSON files in the same format as
+ * data/memories.json and data/personality.json
+ */
+export class JsonFileStorageProvider implements MemoryStorageProvider, PersonalityStorageProvider, MoodStorageProvider {
+    private readonly options: Required<JsonFileStorageOptions>;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(options: JsonFileStorageOptions) {
+        this.options = {
+            ...options,
+            historyPath: options.historyPath ?? options.personalityPath.replace(/(\.json)?$/, '.history.json'),
+            moodPath: options.moodPath ?? options.personalityPath.replace(/(\.json)?$/, '.mood.json')
+        };
+    }
+
+    /**
+     * Serialize writes so concurrent saves cannot interleave their renames
+     */
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const write = this.writeQueue.then(task);
+        this.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+
+    private enqueueWrite(filePath: string, value: unknown): Promise<void> {
+        return this.enqueue(() => writeJsonFileAtomic(filePath, value));
+    }
+
+    public async loadMemories(): Promise<Memory[]> {
+        return (await readJsonFile<Memory[]>(this.options.memoriesPath)) ?? [];
+    }
+
+    public async saveMemories(memories: Memory[]): Promise<void> {
+        await this.enqueueWrite(this.options.memoriesPath, memories);
+    }
+
+    public async loadPersonality(): Promise<AgentPersonality | null> {
+        return (await readJsonFile<AgentPersonality>(this.options.personalityPath)) ?? null;
+    }
+
+    public async savePersonality(personality: AgentPersonality): Promise<void> {
+        await this.enqueueWrite(this.options.personalityPath, personality);
+    }
+
+    public async loadPersonalityHistory(): Promise<PersonalityVersion[]> {
+        return (await readJsonFile<PersonalityVersion[]>(this.options.historyPath)) ?? [];
+    }
+
+    public async appendPersonalityVersion(version: PersonalityVersion): Promise<void> {
+        // Read inside the queue so concurrent appends see each other
+        await this.enqueue(async () => {
+            const history = await this.loadPersonalityHistory();
+            await writeJsonFileAtomic(this.options.historyPath, [...history, version]);
+        });
+    }
+
+    public async loadMood(): Promise<MoodState | null> {
+        return (await readJsonFile<MoodState>(this.options.moodPath)) ?? null;
+    }
+
+    public async saveMood(mood: MoodState): Promise<void> {
+        await this.enqueueWrite(this.options.moodPath, mood);
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const storage = new JsonFileStorageProvider({
+ *   memoriesPath: 'data/memories.json',
+ *   personalityPath: 'data/personality.json'
+ * });
+ *
+ * const memoryManager = new MemoryManager(storage);
+ * const personalityManager = new PersonalityManager(storage);
+ * ```
+ */
@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SQLiteStorageProvider } from './sqliteStorageProvider';
+import { JsonFileStorageProvider } from './jsonFileStorageProvider';
+import { AgentPersonality, Memory } from '../types/memory.types';
+
+const DATA_DIR = path.join(__dirname, '..', '..', 'data');
+
+async function readDataFile<T>(name: string): Promise<T> {
+    return JSON.parse(await fs.readFile(path.join(DATA_DIR, name), 'utf8')) as T;
+}
+
+describe('SQLiteStorageProvider', () => {
+    let dir: string;
+    let db: Database.Database;
+    let storage: SQLiteStorageProvider;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mindsculpt-sqlite-'));
+        db = new Database(path.join(dir, 'mindsculpt.db'));
+        storage = new SQLiteStorageProvider(db, 'agent_1');
+    });
+
+    afterEach(async () => {
+        db.close();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('imports data/memories.json and data/personality.json unchanged', async () => {
+        await storage.importFrom(new JsonFileStorageProvider({
+            memoriesPath: path.join(DATA_DIR, 'memories.json'),
+            personalityPath: path.join(DATA_DIR, 'personality.json')
+        }));
+
+        expect(await storage.loadMemories()).toEqual(await readDataFile<Memory[]>('memories.json'));
+        expect(await storage.loadPersonality()).toEqual(await readDataFile<AgentPersonality>('personality.json'));
+    });
+
+    it('persists across connections to the same file', async () => {
+        const memories = await readDataFile<Memory[]>('memories.json');
+        await storage.saveMemories(memories);
+        db.close();
+
+        db = new Database(path.join(dir, 'mindsculpt.db'));
+        expect(await new SQLiteStorageProvider(db, 'agent_1').loadMemories()).toEqual(memories);
+        expect(await new SQLiteStorageProvider(db, 'agent_2').loadMemories()).toEqual([]);
+    });
+
+    it('returns empty results for a new database', async () => {
+        expect(await storage.loadMemories()).toEqual([]);
+        expect(await storage.loadPersonality()).toBeNull();
+        expect(await storage.loadPersonalityHistory()).toEqual([]);
+        expect(await storage.loadMood()).toBeNull();
+    });
+
+    it('applies incremental upserts, patches and deletes', async () => {
+        const [first, second, third] = await readDataFile<Memory[]>('memories.json');
+        await storage.saveMemories([first, second]);
+
+        await storage.upsertMemories([{ ...third, links: [{ target: first.id, type: 'elaborates', weight: 0.5 }] }]);
+        await storage.patchMemory(first.id, { importance: 0.1, last_accessed: 42 });
+        await storage.deleteMemories([second.id]);
+
+        const loaded = await storage.loadMemories();
+        expect(loaded.map(memory => memory.id)).toEqual([first.id, third.id]);
+        expect(loaded[0]).toMatchObject({ importance: 0.1, last_accessed: 42, linked_memories: first.linked_memories });
+        expect(loaded[1].links).toEqual([{ target: first.id, type: 'elaborates', weight: 0.5 }]);
+    });
+
+    it('stores personality history and mood', async () => {
+        const personality = await readDataFile<AgentPersonality>('personality.json');
+        await storage.appendPersonalityVersion({ version: 1, timestamp: 1, author: 'system', reason: 'Initial', personality });
+        await storage.saveMood({ valence: 0.2, arousal: 0.6, timestamp: 5 });
+
+        expect(await storage.loadPersonalityHistory()).toEqual([
+            { version: 1, timestamp: 1, author: 'system', reason: 'Initial', personality }
+        ]);
+        expect(await storage.loadMood()).toEqual({ valence: 0.2, arousal: 0.6, timestamp: 5 });
+    });
+});
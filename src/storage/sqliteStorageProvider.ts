@@ -0,0 +1,381 @@
+import { AgentPersonality, Memory, MemoryLink, MoodState, PersonalityVersion } from '../types/memory.types';
+import { IncrementalMemoryStorageProvider, MemoryStorageProvider } from '../services/MemoryManager';
+import { PersonalityStorageProvider } from '../services/personalityManager';
+import { MoodStorageProvider } from '../services/moodManager';
+
+/**
+ * Prepared statement subset shared by better-sqlite3 and node:sqlite
+ */
+export interface SQLiteStatement {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+    get(...params: unknown[]): unknown;
+}
+
+/**
+ * Database subset shared by better-sqlite3 and node:sqlite
+ */
+export interface SQLiteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SQLiteStatement;
+}
+
+interface MemoryRow {
+    document: string;
+}
+
+interface LinkRow {
+    source_id: string;
+    target_id: string;
+    type: string;
+    weight: number;
+}
+
+interface PersonalityRow {
+    document: string;
+}
+
+interface MoodRow {
+    valence: number;
+    arousal: number;
+    updated_at: number;
+}
+
+interface PersonalityVersionRow {
+    version: number;
+    timestamp: number;
+    author: string;
+    reason: string;
+    document: string;
+}
+
+/**
+ * Link type stored for plain `linked_memories` entries
+ */
+const UNTYPED_LINK = '';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS memories (
+        agent_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        focus_area TEXT,
+        interaction_type TEXT,
+        importance REAL NOT NULL,
+        emotion_score REAL NOT NULL,
+        status TEXT,
+        created_at INTEGER NOT NULL,
+        last_accessed INTEGER,
+        document TEXT NOT NULL,
+        PRIMARY KEY (agent_id, id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_memories_focus_area ON memories (agent_id, focus_area);
+    CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories (agent_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS memory_links (
+        agent_id TEXT NOT NULL,
+        source_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        weight REAL NOT NULL,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (agent_id, source_id, target_id, type)
+    );
+
+    CREATE TABLE IF NOT EXISTS personality (
+        agent_id TEXT PRIMARY KEY,
+        document TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS personality_versions (
+        agent_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        author TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        document TEXT NOT NULL,
+        PRIMARY KEY (agent_id, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS mood (
+        agent_id TEXT PRIMARY KEY,
+        valence REAL NOT NULL,
+        arousal REAL NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+`;
+
+/**
+ * SQLite storage provider with separate tables for memories, links,
+ * personality and mood. Takes an open database handle so the driver stays the
+ * caller's choice (better-sqlite3, node:sqlite, ...).
+ */
+export class SQLiteStorageProvider
+    implements IncrementalMemoryStorageProvider, PersonalityStorageProvider, MoodStorageProvider {
+    private readonly db: SQLiteDatabase;
+    private readonly agentId: string;
+
+    constructor(db: SQLiteDatabase, agentId: string) {
+        this.db = db;
+        this.agentId = agentId;
+        this.db.exec(SCHEMA);
+    }
+
+    /**
+     * Run a block of statements in a single transaction
+     */
+    protected transaction(work: () => void): void {
+        this.db.exec('BEGIN');
+        try {
+            work();
+            this.db.exec('COMMIT');
+        } catch (error) {
+            this.db.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    public async loadMemories(): Promise<Memory[]> {
+        const rows = this.db
+            .prepare('SELECT document FROM memories WHERE agent_id = ? ORDER BY created_at, id')
+            .all(this.agentId) as MemoryRow[];
+        const linkRows = this.db
+            .prepare('SELECT source_id, target_id, type, weight FROM memory_links WHERE agent_id = ? ORDER BY position')
+            .all(this.agentId) as LinkRow[];
+
+        return this.assembleMemories(rows, linkRows);
+    }
+
+    /**
+     * Load a single memory with its links
+     */
+    private loadMemory(id: string): Memory | undefined {
+        const rows = this.db
+            .prepare('SELECT document FROM memories WHERE agent_id = ? AND id = ?')
+            .all(this.agentId, id) as MemoryRow[];
+        const linkRows = this.db
+            .prepare(`
+                SELECT source_id, target_id, type, weight FROM memory_links
+                WHERE agent_id = ? AND source_id = ? ORDER BY position
+            `)
+            .all(this.agentId, id) as LinkRow[];
+
+        return this.assembleMemories(rows, linkRows)[0];
+    }
+
+    /**
+     * Rebuild memory documents from their rows and link rows
+     */
+    private assembleMemories(rows: MemoryRow[], linkRows: LinkRow[]): Memory[] {
+        const linkedIds = new Map<string, string[]>();
+        const typedLinks = new Map<string, MemoryLink[]>();
+        for (const row of linkRows) {
+            if (row.type === UNTYPED_LINK) {
+                linkedIds.set(row.source_id, [...(linkedIds.get(row.source_id) || []), row.target_id]);
+            } else {
+                typedLinks.set(row.source_id, [
+                    ...(typedLinks.get(row.source_id) || []),
+                    { target: row.target_id, type: row.type as MemoryLink['type'], weight: row.weight }
+                ]);
+            }
+        }
+
+        return rows.map(row => {
+            const memory = JSON.parse(row.document) as Memory;
+            memory.linked_memories = linkedIds.get(memory.id) || [];
+            const links = typedLinks.get(memory.id);
+            if (links) {
+                memory.links = links;
+            }
+            return memory;
+        });
+    }
+
+    public async saveMemories(memories: Memory[]): Promise<void> {
+        this.transaction(() => {
+            this.db.prepare('DELETE FROM memory_links WHERE agent_id = ?').run(this.agentId);
+            this.db.prepare('DELETE FROM memories WHERE agent_id = ?').run(this.agentId);
+            memories.forEach(memory => this.writeMemory(memory));
+        });
+    }
+
+    public async upsertMemories(memories: Memory[]): Promise<void> {
+        this.transaction(() => {
+            memories.forEach(memory => {
+                this.deleteLinks(memory.id);
+                this.writeMemory(memory);
+            });
+        });
+    }
+
+    public async deleteMemories(ids: string[]): Promise<void> {
+        this.transaction(() => {
+            ids.forEach(id => {
+                this.deleteLinks(id);
+                this.db.prepare('DELETE FROM memories WHERE agent_id = ? AND id = ?').run(this.agentId, id);
+            });
+        });
+    }
+
+    public async patchMemory(id: string, patch: Partial<Memory>): Promise<void> {
+        this.transaction(() => {
+            const memory = this.loadMemory(id);
+            if (!memory) {
+                return;
+            }
+            this.deleteLinks(id);
+            this.writeMemory({ ...memory, ...patch, id });
+        });
+    }
+
+    /**
+     * Remove the outgoing links of a memory
+     */
+    private deleteLinks(id: string): void {
+        this.db.prepare('DELETE FROM memory_links WHERE agent_id = ? AND source_id = ?').run(this.agentId, id);
+    }
+
+    /**
+     * Insert a memory row and its links
+     */
+    protected writeMemory(memory: Memory): void {
+        const { linked_memories, links, ...document } = memory;
+
+        this.db.prepare(`
+            INSERT OR REPLACE INTO memories (
+                agent_id, id, text, focus_area, interaction_type, importance, emotion_score,
+                status, created_at, last_accessed, document
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            this.agentId,
+            memory.id,
+            memory.text,
+            memory.context?.focus_area ?? null,
+            memory.context?.interaction_type ?? null,
+            memory.importance,
+            memory.emotion_score,
+            memory.status ?? null,
+            memory.created_at,
+            memory.last_accessed ?? null,
+            JSON.stringify(document)
+        );
+
+        const insertLink = this.db.prepare(`
+            INSERT OR REPLACE INTO memory_links (agent_id, source_id, target_id, type, weight, position)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        (linked_memories || []).forEach((targetId, position) =>
+            insertLink.run(this.agentId, memory.id, targetId, UNTYPED_LINK, 1, position)
+        );
+        (links || []).forEach((link, position) =>
+            insertLink.run(this.agentId, memory.id, link.target, link.type, link.weight, position)
+        );
+    }
+
+    public async loadPersonality(): Promise<AgentPersonality | null> {
+        const row = this.db
+            .prepare('SELECT document FROM personality WHERE agent_id = ?')
+            .get(this.agentId) as PersonalityRow | undefined;
+        return row ? JSON.parse(row.document) : null;
+    }
+
+    public async savePersonality(personality: AgentPersonality): Promise<void> {
+        this.db.prepare(`
+            INSERT OR REPLACE INTO personality (agent_id, document, updated_at) VALUES (?, ?, ?)
+        `).run(this.agentId, JSON.stringify(personality), Date.now());
+    }
+
+    public async loadPersonalityHistory(): Promise<PersonalityVersion[]> {
+        const rows = this.db
+            .prepare(`
+                SELECT version, timestamp, author, reason, document FROM personality_versions
+                WHERE agent_id = ? ORDER BY version
+            `)
+            .all(this.agentId) as PersonalityVersionRow[];
+
+        return rows.map(row => ({
+            version: row.version,
+            timestamp: row.timestamp,
+            author: row.author,
+            reason: row.reason,
+            personality: JSON.parse(row.document)
+        }));
+    }
+
+    public async appendPersonalityVersion(version: PersonalityVersion): Promise<void> {
+        this.writePersonalityVersion(version);
+    }
+
+    /**
+     * Insert one personality version row
+     */
+    private writePersonalityVersion(version: PersonalityVersion): void {
+        this.db.prepare(`
+            INSERT INTO personality_versions (agent_id, version, timestamp, author, reason, document)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(
+            this.agentId,
+            version.version,
+            version.timestamp,
+            version.author,
+            version.reason,
+            JSON.stringify(version.personality)
+        );
+    }
+
+    public async loadMood(): Promise<MoodState | null> {
+        const row = this.db
+            .prepare('SELECT valence, arousal, updated_at FROM mood WHERE agent_id = ?')
+            .get(this.agentId) as MoodRow | undefined;
+        return row ? { valence: row.valence, arousal: row.arousal, timestamp: row.updated_at } : null;
+    }
+
+    public async saveMood(mood: MoodState): Promise<void> {
+        this.db.prepare(`
+            INSERT OR REPLACE INTO mood (agent_id, valence, arousal, updated_at) VALUES (?, ?, ?, ?)
+        `).run(this.agentId, mood.valence, mood.arousal, mood.timestamp);
+    }
+
+    /**
+     * Copy memories, personality and personality history from another
+     * provider, e.g. a JsonFileStorageProvider pointed at data/*.json
+     */
+    public async importFrom(source: MemoryStorageProvider & PersonalityStorageProvider): Promise<void> {
+        const [memories, personality] = await Promise.all([
+            source.loadMemories(),
+            source.loadPersonality()
+        ]);
+
+        await this.saveMemories(memories);
+        if (personality) {
+            await this.savePersonality(personality);
+        }
+
+        if (source.loadPersonalityHistory) {
+            const history = await source.loadPersonalityHistory();
+            this.transaction(() => {
+                this.db.prepare('DELETE FROM personality_versions WHERE agent_id = ?').run(this.agentId);
+                history.forEach(version => this.writePersonalityVersion(version));
+            });
+        }
+    }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const storage = new SQLiteStorageProvider(new Database('mindsculpt.db'), 'agent_123');
+ *
+ * // Seed from the bundled example data
+ * await storage.importFrom(new JsonFileStorageProvider({
+ *   memoriesPath: 'data/memories.json',
+ *   personalityPath: 'data/personality.json'
+ * }));
+ *
+ * const memoryManager = new MemoryManager(storage);
+ * ```
+ */
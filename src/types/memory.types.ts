@@ -1,8 +1,11 @@
 export interface AgentPersonality {
+    schemaVersion?: number;
     agent: {
         id: string;
         name: string;
         description: string;
+        gender?: string;
+        imageUrl?: string;
     };
     traits: {
         empathy: number;
@@ -18,7 +21,27 @@ export interface AgentPersonality {
     };
 }
 
+export interface PersonalityVersion {
+    version: number;
+    timestamp: number;
+    author: string;
+    reason: string;
+    personality: AgentPersonality;
+}
+
+/**
+ * Short-term affective state, separate from the long-term traits
+ */
+export interface MoodState {
+    /** -1 (negative) to 1 (positive), on the same scale as emotion_score */
+    valence: number;
+    /** 0 (calm) to 1 (activated) */
+    arousal: number;
+    timestamp: number;
+}
+
 export interface Memory {
+    schemaVersion?: number;
     id: string;
     text: string;
     glimpse_id: string;
@@ -37,18 +60,37 @@ export interface Memory {
     importance: number;
     emotion_score: number;
     linked_memories: string[];
+    links?: MemoryLink[];
+    tags?: string[];
     created_at: number;
     last_accessed?: number;
+    access_count?: number;
+    status?: 'active' | 'archived';
+    archived_at?: number;
+    embedding?: number[];
     metadata?: Record<string, any>;
 }
 
+export type MemoryLinkType = 'causes' | 'contradicts' | 'elaborates' | 'same_topic' | 'related';
+
+export interface MemoryLink {
+    target: string;
+    type: MemoryLinkType;
+    weight: number;
+}
+
+export interface MemoryGraphEdge {
+    from: string;
+    to: string;
+    weight: number;
+    type: MemoryLinkType;
+}
+
 export interface MemoryGraph {
     nodes: Memory[];
-    edges: {
-        from: string;
-        to: string;
-        weight: number;
-    }[];
+    edges: MemoryGraphEdge[];
+    /** Edges touching each node, by node id; filled in by buildMemoryGraph */
+    adjacency?: Map<string, MemoryGraphEdge[]>;
 }
 
 export interface MemoryClassification {
@@ -77,6 +119,7 @@ export interface PromptTemplate {
     memory_suffix: string;
     personality_prefix: string;
     personality_suffix: string;
+    memory_item?: string;
 }
 
 export interface MemorySearchParams {
@@ -84,15 +127,70 @@ export interface MemorySearchParams {
     importance_threshold?: number;
     emotion_threshold?: number;
     focus_area?: string;
+    tags?: string[];
     limit?: number;
     from_date?: number;
     to_date?: number;
     memories?: Memory[];
     personality?: AgentPersonality;
+    semantic?: boolean;
+    min_similarity?: number;
+    ranking?: 'importance' | 'relevance';
+    include_archived?: boolean;
+    weights?: Partial<RelevanceWeights>;
+    spread?: SpreadingActivationParams;
+    /** Update last_accessed and access_count on the results; defaults to true */
+    record_access?: boolean;
+}
+
+export interface SpreadingActivationParams {
+    seed_count?: number;
+    decay?: number;
+    max_hops?: number;
+    threshold?: number;
+    max_results?: number;
+    max_tokens?: number;
+}
+
+export interface ActivatedMemory {
+    memory: Memory;
+    activation: number;
+    hops: number;
+    via?: string;
+}
+
+export interface RelevanceWeights {
+    recency: number;
+    importance: number;
+    emotion: number;
+    similarity: number;
+    frequency: number;
+}
+
+export interface ScoreBreakdown extends RelevanceWeights {
+    kind_multiplier: number;
+    total: number;
+}
+
+export interface ScoredMemory {
+    memory: Memory;
+    score: number;
+    breakdown: ScoreBreakdown;
 }
 
 export interface MemoryUpdateEvent {
-    type: 'create' | 'update' | 'delete' | 'link';
+    type: 'create' | 'update' | 'delete' | 'link' | 'archive' | 'restore' | 'forget' | 'merge' | 'unmerge';
     memory: Memory;
     linked_to?: string[];
+}
+
+export interface MergeProvenance {
+    merged_at: number;
+    sources: Memory[];
+    link_rewrites: {
+        id: string;
+        replaced: string[];
+        had_survivor_link: boolean;
+        previous_links?: MemoryLink[];
+    }[];
 }
\ No newline at end of file
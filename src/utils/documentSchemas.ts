@@ -0,0 +1,264 @@
+import { AgentPersonality, Memory } from '../types/memory.types';
+import { Schema, SchemaValidationError, ValidationIssue, formatIssues, schema } from './schema';
+
+/**
+ * Upgrades a document from one schema version to the next
+ */
+export type DocumentMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Thrown when a stored or outgoing document does not match its schema.
+ * `document` names what failed, e.g. "personality" or "memory mem_123".
+ */
+export class DocumentValidationError extends SchemaValidationError {
+    public readonly document: string;
+
+    constructor(document: string, issues: ValidationIssue[]) {
+        super(issues);
+        this.name = 'DocumentValidationError';
+        this.message = `Invalid ${document}: ${formatIssues(issues)}`;
+        this.document = document;
+    }
+}
+
+/**
+ * Ordered migrations for one kind of document. Documents without a
+ * `schemaVersion` are version 0; the current version is one past the last
+ * registered migration.
+ */
+export class MigrationRegistry {
+    public readonly kind: string;
+    private readonly migrations: DocumentMigration[] = [];
+
+    constructor(kind: string) {
+        this.kind = kind;
+    }
+
+    public get currentVersion(): number {
+        return this.migrations.length;
+    }
+
+    /**
+     * Register the migration from `fromVersion` to `fromVersion + 1`.
+     * Migrations must be registered in order.
+     */
+    public register(fromVersion: number, migrate: DocumentMigration): this {
+        if (fromVersion !== this.migrations.length) {
+            throw new Error(
+                `Expected ${this.kind} migration from version ${this.migrations.length}, got ${fromVersion}`
+            );
+        }
+        this.migrations.push(migrate);
+        return this;
+    }
+
+    /**
+     * Upgrade a document to the current version. Documents from a newer
+     * version are rejected rather than guessed at.
+     */
+    public migrate(document: unknown, label: string = this.kind): unknown {
+        if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+            return document;
+        }
+
+        let current = document as Record<string, unknown>;
+        const version = current.schemaVersion ?? 0;
+        if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+            throw new DocumentValidationError(label, [
+                { path: 'schemaVersion', message: `expected non-negative integer, got ${JSON.stringify(version)}` }
+            ]);
+        }
+        if (version > this.currentVersion) {
+            throw new DocumentValidationError(label, [
+                { path: 'schemaVersion', message: `unsupported version ${version} (latest is ${this.currentVersion})` }
+            ]);
+        }
+
+        for (let from = version; from < this.currentVersion; from++) {
+            current = { ...this.migrations[from](current), schemaVersion: from + 1 };
+        }
+        return current;
+    }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value as Record<string, unknown>
+        : {};
+}
+
+/**
+ * Stable glimpse id for legacy memories stored without one
+ */
+function legacyGlimpseId(id: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < id.length; i++) {
+        hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return `>gl${hash.toString(16).padStart(8, '0')}`;
+}
+
+export const personalityMigrations = new MigrationRegistry('personality')
+    // Version 1: values, description and patterns became required
+    .register(0, document => {
+        const agent = asRecord(document.agent);
+        const communication = asRecord(document.communication);
+        return {
+            ...document,
+            agent: { ...agent, description: agent.description ?? '' },
+            values: document.values ?? [],
+            communication: { ...communication, patterns: communication.patterns ?? [] }
+        };
+    });
+
+export const memoryMigrations = new MigrationRegistry('memory')
+    // Version 1: every memory has a glimpse id, an observation and full context
+    .register(0, document => {
+        const context = asRecord(document.context);
+        return {
+            ...document,
+            glimpse_id: document.glimpse_id ?? legacyGlimpseId(String(document.id ?? '')),
+            observation: document.observation ?? '',
+            conversation: document.conversation ?? { agent_messages: [], user_messages: [] },
+            context: {
+                ...context,
+                focus_area: context.focus_area ?? '',
+                user_state: context.user_state ?? '',
+                scene_details: context.scene_details ?? '',
+                interaction_type: context.interaction_type ?? ''
+            },
+            linked_memories: document.linked_memories ?? []
+        };
+    });
+
+const traitValue = schema.number({ min: 0, max: 1 });
+const stringList = schema.array(schema.string());
+
+const coreTraits = schema.object({
+    empathy: traitValue,
+    humor: traitValue,
+    curiosity: traitValue
+});
+
+/**
+ * Every trait, including custom ones, must lie within 0-1, and the core
+ * traits must be present
+ */
+const traitsSchema: Schema<AgentPersonality['traits']> = {
+    validate(value, path = '') {
+        const all = schema.record(traitValue).validate(value, path);
+        if (!all.success) {
+            return all;
+        }
+        const core = coreTraits.validate(value, path);
+        return core.success ? { success: true, value: all.value as AgentPersonality['traits'] } : core;
+    }
+};
+
+export const personalitySchema = schema.object({
+    schemaVersion: schema.optional(schema.number({ min: 0 })),
+    agent: schema.object({
+        id: schema.string({ nonEmpty: true }),
+        name: schema.string({ nonEmpty: true }),
+        description: schema.string(),
+        gender: schema.optional(schema.string()),
+        imageUrl: schema.optional(schema.string())
+    }),
+    traits: traitsSchema,
+    values: stringList,
+    communication: schema.object({
+        style: schema.string(),
+        tone: schema.string(),
+        patterns: stringList
+    })
+});
+
+export const memorySchema = schema.object({
+    schemaVersion: schema.optional(schema.number({ min: 0 })),
+    id: schema.string({ nonEmpty: true }),
+    text: schema.string(),
+    glimpse_id: schema.string(),
+    observation: schema.string(),
+    conversation: schema.object({
+        agent_messages: stringList,
+        user_messages: stringList
+    }),
+    context: schema.object({
+        focus_area: schema.string(),
+        user_state: schema.string(),
+        scene_details: schema.string(),
+        interaction_type: schema.string()
+    }),
+    importance: schema.number({ min: 0, max: 1 }),
+    emotion_score: schema.number({ min: -1, max: 1 }),
+    linked_memories: stringList,
+    links: schema.optional(schema.array(schema.object({
+        target: schema.string({ nonEmpty: true }),
+        type: schema.oneOf(['causes', 'contradicts', 'elaborates', 'same_topic', 'related'] as const),
+        weight: schema.number({ min: 0, max: 1 })
+    }))),
+    tags: schema.optional(stringList),
+    created_at: schema.number(),
+    last_accessed: schema.optional(schema.number()),
+    access_count: schema.optional(schema.number({ min: 0 })),
+    status: schema.optional(schema.oneOf(['active', 'archived'] as const)),
+    archived_at: schema.optional(schema.number()),
+    embedding: schema.optional(schema.array(schema.number()))
+});
+
+function validateDocument<T>(validator: Schema<unknown>, document: unknown, label: string): T {
+    const result = validator.validate(document);
+    if (!result.success) {
+        throw new DocumentValidationError(label, result.issues);
+    }
+    return result.value as T;
+}
+
+/**
+ * Check a personality before it is saved or applied
+ */
+export function validatePersonality(personality: unknown): AgentPersonality {
+    return validateDocument<AgentPersonality>(personalitySchema, personality, 'personality');
+}
+
+/**
+ * Migrate and validate a personality read from storage
+ */
+export function loadPersonalityDocument(document: unknown): AgentPersonality {
+    return validatePersonality(personalityMigrations.migrate(document));
+}
+
+/**
+ * Check a memory before it is saved
+ */
+export function validateMemory(memory: unknown): Memory {
+    const id = asRecord(memory).id;
+    return validateDocument<Memory>(memorySchema, memory, id ? `memory ${id}` : 'memory');
+}
+
+/**
+ * Migrate and validate a memory read from storage
+ */
+export function loadMemoryDocument(document: unknown): Memory {
+    const id = asRecord(document).id;
+    return validateMemory(memoryMigrations.migrate(document, id ? `memory ${id}` : 'memory'));
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * // Register an upgrade when the personality format changes
+ * personalityMigrations.register(1, document => ({
+ *   ...document,
+ *   communication: { ...(document.communication as object), formality: 'casual' }
+ * }));
+ *
+ * try {
+ *   const personality = loadPersonalityDocument(JSON.parse(raw));
+ * } catch (error) {
+ *   if (error instanceof DocumentValidationError) {
+ *     console.error(error.message); // "Invalid personality: traits.humor expected number <= 1, got 1.4"
+ *   }
+ * }
+ * ```
+ */
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFile';
+
+describe('jsonFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mindsculpt-json-file-'));
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    describe('readJsonFile', () => {
+        it('returns undefined for a missing file', async () => {
+            expect(await readJsonFile(path.join(dir, 'missing', 'value.json'))).toBeUndefined();
+        });
+
+        it('rethrows read errors other than a missing file', async () => {
+            await fs.writeFile(path.join(dir, 'broken.json'), '{ not json', 'utf8');
+
+            await expect(readJsonFile(path.join(dir, 'broken.json'))).rejects.toThrow(SyntaxError);
+            await expect(readJsonFile(dir)).rejects.toMatchObject({ code: 'EISDIR' });
+        });
+    });
+
+    describe('writeJsonFileAtomic', () => {
+        it('writes a temp file in the target directory, then renames it over the target', async () => {
+            const target = path.join(dir, 'nested', 'value.json');
+            const rename = jest.spyOn(fs, 'rename');
+
+            await writeJsonFileAtomic(target, { a: 1 });
+
+            expect(rename).toHaveBeenCalledTimes(1);
+            const [from, to] = rename.mock.calls[0] as [string, string];
+            expect(path.dirname(from)).toBe(path.dirname(target));
+            expect(path.basename(from)).toMatch(/^\.value\.json\..*\.tmp$/);
+            expect(to).toBe(target);
+            expect(await readJsonFile(target)).toEqual({ a: 1 });
+            expect(await fs.readdir(path.dirname(target))).toEqual(['value.json']);
+        });
+
+        it('leaves the previous file intact and removes the temp file when the rename fails', async () => {
+            const target = path.join(dir, 'value.json');
+            await writeJsonFileAtomic(target, { version: 1 });
+            jest.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+            await expect(writeJsonFileAtomic(target, { version: 2 })).rejects.toThrow('disk full');
+
+            expect(await readJsonFile(target)).toEqual({ version: 1 });
+            expect(await fs.readdir(dir)).toEqual(['value.json']);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Read and parse a JSON file, returning undefined when it does not exist
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+    try {
+        const data = await fs.readFile(filePath, 'utf8');
+        return JSON.parse(data) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Write a JSON file atomically: the data goes to a temp file in the same
+ * directory, which is then renamed over the target
+ */
+export async function writeJsonFileAtomic(filePath: string, value: unknown): Promise<void> {
+    const directory = path.dirname(filePath);
+    await fs.mkdir(directory, { recursive: true });
+
+    const tempPath = path.join(
+        directory,
+        `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).substr(2, 9)}.tmp`
+    );
+
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(value, null, 4), 'utf8');
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+    }
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * const settings = (await readJsonFile<Settings>('data/settings.json')) ?? DEFAULT_SETTINGS;
+ * await writeJsonFileAtomic('data/settings.json', { ...settings, theme: 'dark' });
+ * ```
+ */
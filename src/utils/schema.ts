@@ -0,0 +1,304 @@
+/**
+ * Minimal runtime schemas for validating untrusted data such as model output
+ * and stored documents
+ */
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type ValidationResult<T> =
+    | { success: true; value: T }
+    | { success: false; issues: ValidationIssue[] };
+
+/**
+ * A validator for values of type T
+ */
+export interface Schema<T> {
+    validate(value: unknown, path?: string): ValidationResult<T>;
+    /** Set by `optional`; object schemas skip missing optional fields */
+    readonly optional?: boolean;
+}
+
+/**
+ * Static type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type ObjectShape = Record<string, Schema<unknown>>;
+
+type RequiredKeys<S extends ObjectShape> = { [K in keyof S]: S[K] extends { optional: true } ? never : K }[keyof S];
+type OptionalKeys<S extends ObjectShape> = Exclude<keyof S, RequiredKeys<S>>;
+
+export type InferObject<S extends ObjectShape> =
+    { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+/**
+ * Thrown by `parseWithSchema` when validation fails
+ */
+export class SchemaValidationError extends Error {
+    public readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        super(`Schema validation failed: ${formatIssues(issues)}`);
+        this.name = 'SchemaValidationError';
+        this.issues = issues;
+    }
+}
+
+function fail<T>(path: string, message: string): ValidationResult<T> {
+    return { success: false, issues: [{ path: path || '(root)', message }] };
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+    return {
+        validate(value, path = '') {
+            if (typeof value !== 'string') {
+                return fail(path, `expected string, got ${describe(value)}`);
+            }
+            if (options.nonEmpty && value.trim() === '') {
+                return fail(path, 'expected non-empty string');
+            }
+            return { success: true, value };
+        }
+    };
+}
+
+function number(options: { min?: number; max?: number } = {}): Schema<number> {
+    return {
+        validate(value, path = '') {
+            if (typeof value !== 'number' || isNaN(value)) {
+                return fail(path, `expected number, got ${describe(value)}`);
+            }
+            if (options.min !== undefined && value < options.min) {
+                return fail(path, `expected number >= ${options.min}, got ${value}`);
+            }
+            if (options.max !== undefined && value > options.max) {
+                return fail(path, `expected number <= ${options.max}, got ${value}`);
+            }
+            return { success: true, value };
+        }
+    };
+}
+
+function boolean(): Schema<boolean> {
+    return {
+        validate(value, path = '') {
+            return typeof value === 'boolean'
+                ? { success: true, value }
+                : fail(path, `expected boolean, got ${describe(value)}`);
+        }
+    };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+        validate(value, path = '') {
+            return values.includes(value as T)
+                ? { success: true, value: value as T }
+                : fail(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+        }
+    };
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+        validate(value, path = '') {
+            if (!Array.isArray(value)) {
+                return fail(path, `expected array, got ${describe(value)}`);
+            }
+            const result: T[] = [];
+            const issues: ValidationIssue[] = [];
+            value.forEach((element, index) => {
+                const validated = item.validate(element, `${path}[${index}]`);
+                if (validated.success) {
+                    result.push(validated.value);
+                } else {
+                    issues.push(...validated.issues);
+                }
+            });
+            return issues.length > 0 ? { success: false, issues } : { success: true, value: result };
+        }
+    };
+}
+
+/**
+ * Object with known fields. Unknown fields are preserved, so documents
+ * written by newer code survive a round trip.
+ */
+function object<S extends ObjectShape>(shape: S): Schema<InferObject<S>> {
+    return {
+        validate(value, path = '') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return fail(path, `expected object, got ${describe(value)}`);
+            }
+            const input = value as Record<string, unknown>;
+            const result: Record<string, unknown> = { ...input };
+            const issues: ValidationIssue[] = [];
+
+            for (const [key, fieldSchema] of Object.entries(shape)) {
+                const fieldPath = path ? `${path}.${key}` : key;
+                if (input[key] === undefined) {
+                    if (!fieldSchema.optional) {
+                        issues.push({ path: fieldPath, message: 'is required' });
+                    }
+                    continue;
+                }
+                const validated = fieldSchema.validate(input[key], fieldPath);
+                if (validated.success) {
+                    result[key] = validated.value;
+                } else {
+                    issues.push(...validated.issues);
+                }
+            }
+
+            return issues.length > 0
+                ? { success: false, issues }
+                : { success: true, value: result as InferObject<S> };
+        }
+    };
+}
+
+/**
+ * Values of a string-keyed map, e.g. trait name to trait value
+ */
+function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+    return {
+        validate(value, path = '') {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return fail(path, `expected object, got ${describe(value)}`);
+            }
+            const result: Record<string, T> = {};
+            const issues: ValidationIssue[] = [];
+            for (const [key, element] of Object.entries(value)) {
+                const validated = item.validate(element, path ? `${path}.${key}` : key);
+                if (validated.success) {
+                    result[key] = validated.value;
+                } else {
+                    issues.push(...validated.issues);
+                }
+            }
+            return issues.length > 0 ? { success: false, issues } : { success: true, value: result };
+        }
+    };
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } {
+    return {
+        optional: true,
+        validate(value, path = '') {
+            return value === undefined ? { success: true, value: undefined } : inner.validate(value, path);
+        }
+    };
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+    string,
+    number,
+    boolean,
+    oneOf,
+    array,
+    object,
+    record,
+    optional
+};
+
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate a value, throwing SchemaValidationError on failure
+ */
+export function parseWithSchema<T>(validator: Schema<T>, value: unknown): T {
+    const result = validator.validate(value);
+    if (!result.success) {
+        throw new SchemaValidationError(result.issues);
+    }
+    return result.value;
+}
+
+/**
+ * Pull the first JSON object out of model output, ignoring markdown code
+ * fences and any prose before or after it
+ */
+export function extractJsonObject(text: string): string | undefined {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const source = fenced ? fenced[1] : text;
+
+    const start = source.indexOf('{');
+    if (start === -1) {
+        return undefined;
+    }
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) {
+                return source.slice(start, i + 1);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Extract, parse and validate a JSON object from model output
+ */
+export function parseJsonWithSchema<T>(text: string, validator: Schema<T>): ValidationResult<T> {
+    const json = extractJsonObject(text);
+    if (json === undefined) {
+        return fail('', 'no JSON object found in response');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return fail('', `invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return validator.validate(parsed);
+}
+
+/**
+ * Example usage:
+ * ```typescript
+ * const userSchema = schema.object({
+ *   name: schema.string({ nonEmpty: true }),
+ *   age: schema.optional(schema.number({ min: 0 }))
+ * });
+ * type User = Infer<typeof userSchema>;
+ *
+ * const result = parseJsonWithSchema('```json\n{"name": "Ada"}\n```', userSchema);
+ * if (!result.success) {
+ *   console.error(formatIssues(result.issues));
+ * }
+ * ```
+ */